@@ -1,59 +1,442 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Header } from './components/Header';
 import { SegmentList } from './components/SegmentList';
 import { ApiKeyModal } from './components/ApiKeyModal';
-import { Segment, SegmentStatus, SegmentCategory } from './types';
-import { DEFAULT_SEGMENTS } from './constants';
-import { analyzeTranslation, AnalysisResult } from './services/geminiService';
+import { ImportSummaryModal } from './components/ImportSummaryModal';
+import { Segment, SegmentStatus, SegmentCategory, AnalysisError, ImportSummary, ImportedDocument, ExportFormat, BatchProgress, BatchSettings, AISettings, Glossary, GlossaryEntry, QaSettings, MemoryEntry, RevisionOrigin, AppView, AnalysisCacheSettings, ProjectSettings, Locale, Project, ProjectSummary, PackageImportMode } from './types';
+import { DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE } from './constants';
+import { analyzeTranslation, protectMarkup, AnalysisOutcome, DEFAULT_AI_SETTINGS, toAiSettings, isProviderConfigured, getProvider } from './services/analysisService';
+import { parseXliff, exportXliff } from './services/xliffService';
+import { exportTmx, parseTmx } from './services/tmxService';
+import { languageFromCode, codeForLanguage, languagePair, isKnownLanguage, getLocales, loadCustomLocales, saveCustomLocales, loadLocaleFont } from './services/languageService';
+import { downloadFile, withSuffix } from './services/fileService';
+import { mostSevereIssue } from './services/issueService';
+import { findGlossaryMatches, parseGlossaryCsv, parseTbx, exportGlossaryCsv, exportTbx, toGlossary } from './services/glossaryService';
+import { GlossaryPanel } from './components/GlossaryPanel';
+import { createAnalysisQueue, AnalysisQueue, QueueTaskResult, DEFAULT_BATCH_SETTINGS, toBatchSettings } from './services/analysisQueue';
+import { DEFAULT_QA_SETTINGS } from './services/qaService';
+import { loadMemory, addToMemory, removeFromMemory, createMemoryEntry } from './services/memoryService';
+import { MemoryPanel } from './components/MemoryPanel';
+import { applyWithHistory } from './services/historyService';
+import { createUndoStack } from './services/undoStack';
+import { buildQualityReport, exportReportCsv, exportReportHtml } from './services/reportService';
+import { Dashboard } from './components/Dashboard';
+import { backTranslate } from './services/backTranslationService';
+import { DEFAULT_PROJECT_SETTINGS, activePromptTemplate } from './services/promptService';
+import { ProjectSettingsPanel } from './components/ProjectSettingsPanel';
+import { LocalePanel } from './components/LocalePanel';
+import { analysisCacheKey, readCachedAnalysis, writeCachedAnalysis, CachedAnalysis, DEFAULT_CACHE_SETTINGS, toCacheSettings } from './services/analysisCache';
+import { openStartupProject, fallbackProject, listProjects, loadProject, saveProject, deleteProject, createProject, duplicateProject, summarizeProject, setActiveProjectId } from './services/projectService';
+import { ProjectManager } from './components/ProjectManager';
+import { exportProjectPackage, parseProjectPackage, combineSegments, ParsedPackage } from './services/projectPackage';
+import { ProjectPackageModal } from './components/ProjectPackageModal';
+import { importSubtitles, exportSubtitles, subtitleTiming, CueAlignment, SUBTITLE_FILE_PATTERN } from './services/subtitleService';
+import { SubtitleImportModal } from './components/SubtitleImportModal';
 
 const generateId = () => Math.random().toString(36).substring(2, 9);
 
-const STORAGE_KEY = 'bilingual_proofreader_data_v1';
-const LANGUAGE_KEY = 'bilingual_proofreader_lang_v1';
 const API_KEY_STORAGE = 'bilingual_proofreader_api_key';
+const AI_SETTINGS_KEY = 'bilingual_proofreader_ai_settings_v1';
+const BATCH_SETTINGS_KEY = 'bilingual_proofreader_batch_v1';
+const GLOSSARY_KEY = 'bilingual_proofreader_glossary_v1';
+const CACHE_SETTINGS_KEY = 'bilingual_proofreader_cache_v1';
+const PROJECT_SAVE_DELAY_MS = 500;
 
 const App: React.FC = () => {
-  const [targetLanguage, setTargetLanguage] = useState<string>(() => {
-    return localStorage.getItem(LANGUAGE_KEY) || 'Spanish';
-  });
+  // Registered before anything reads a language's code, direction or font.
+  const [customLocales, setCustomLocales] = useState<Locale[]>(loadCustomLocales);
+  const [isLocalePanelOpen, setIsLocalePanelOpen] = useState(false);
+  const locales = useMemo(() => getLocales(), [customLocales]);
+
+  // The open project's segments, languages and settings live in the states below; `project` holds the rest of its record.
+  const [project, setProject] = useState<Project | null>(null);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isProjectManagerOpen, setIsProjectManagerOpen] = useState(false);
+  const [sourceLanguage, setSourceLanguage] = useState<string>(DEFAULT_SOURCE_LANGUAGE);
+  const [targetLanguage, setTargetLanguage] = useState<string>(DEFAULT_TARGET_LANGUAGE);
 
-  const [apiKey, setApiKey] = useState<string>(() => {
-    return localStorage.getItem(API_KEY_STORAGE) || '';
+  const [aiSettings, setAiSettings] = useState<AISettings>(() => {
+    const saved = localStorage.getItem(AI_SETTINGS_KEY);
+    if (saved) {
+      try {
+        return toAiSettings(JSON.parse(saved));
+      } catch (e) {
+        console.error("Failed to parse AI settings", e);
+      }
+    }
+    // Carry over a Gemini key saved before providers were configurable.
+    const legacyKey = localStorage.getItem(API_KEY_STORAGE) || '';
+    return {
+      ...DEFAULT_AI_SETTINGS,
+      providers: {
+        ...DEFAULT_AI_SETTINGS.providers,
+        gemini: { ...DEFAULT_AI_SETTINGS.providers.gemini, apiKey: legacyKey },
+      },
+    };
   });
 
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+
+  // The original XLIFF or subtitle file is kept so exports can round-trip its ids and structure.
+  const [importedDocument, setImportedDocument] = useState<ImportedDocument | null>(null);
+  const [pendingSubtitles, setPendingSubtitles] = useState<File | null>(null);
 
-  const [segments, setSegments] = useState<Segment[]>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
+  const [batchSettings, setBatchSettings] = useState<BatchSettings>(() => {
+    const saved = localStorage.getItem(BATCH_SETTINGS_KEY);
+    if (saved) {
+      try {
+        return toBatchSettings(JSON.parse(saved));
+      } catch (e) {
+        console.error("Failed to parse batch settings", e);
+      }
+    }
+    return DEFAULT_BATCH_SETTINGS;
+  });
+  const [glossary, setGlossary] = useState<Glossary>(() => {
+    const saved = localStorage.getItem(GLOSSARY_KEY);
+    if (saved) {
+      try {
+        return toGlossary(JSON.parse(saved));
+      } catch (e) {
+        console.error("Failed to parse glossary", e);
+      }
+    }
+    return {};
+  });
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [qaSettings, setQaSettings] = useState<QaSettings>(DEFAULT_QA_SETTINGS);
+  const [cacheSettings, setCacheSettings] = useState<AnalysisCacheSettings>(() => {
+    const saved = localStorage.getItem(CACHE_SETTINGS_KEY);
     if (saved) {
       try {
-        return JSON.parse(saved);
+        return toCacheSettings(JSON.parse(saved));
       } catch (e) {
-        console.error("Failed to parse saved segments", e);
+        console.error("Failed to parse cache settings", e);
       }
     }
-    return DEFAULT_SEGMENTS.map(s => ({ 
-      ...s, 
-      status: s.status as SegmentStatus, 
-      category: s.category as SegmentCategory 
-    }));
+    return DEFAULT_CACHE_SETTINGS;
   });
+  const [projectSettings, setProjectSettings] = useState<ProjectSettings>(DEFAULT_PROJECT_SETTINGS);
+  const [isProjectSettingsOpen, setIsProjectSettingsOpen] = useState(false);
+  const glossaryEntries = glossary[languagePair(sourceLanguage, targetLanguage)] || [];
+
+  const [memoryEntries, setMemoryEntries] = useState<MemoryEntry[]>([]);
+  const [isMemoryOpen, setIsMemoryOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMemoryEntries([]);
+    loadMemory(sourceLanguage, targetLanguage)
+      .then(entries => { if (!cancelled) setMemoryEntries(entries); })
+      .catch(e => console.error("Failed to load translation memory", e));
+    return () => { cancelled = true; };
+  }, [sourceLanguage, targetLanguage]);
+
+  const rememberTranslations = useCallback((entries: MemoryEntry[]) => {
+    if (entries.length === 0) return;
+    const ids = new Set(entries.map(entry => entry.id));
+    setMemoryEntries(prev => [...prev.filter(entry => !ids.has(entry.id)), ...entries]);
+    addToMemory(entries).catch(e => console.error("Failed to save translation memory", e));
+  }, []);
+
+  const forgetTranslations = (ids: string[]) => {
+    const removed = new Set(ids);
+    setMemoryEntries(prev => prev.filter(entry => !removed.has(entry.id)));
+    removeFromMemory(ids).catch(e => console.error("Failed to update translation memory", e));
+  };
+
+  const [view, setView] = useState<AppView>('segments');
+  const [activeSegmentId, setActiveSegmentId] = useState<string | null>(null);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const queueRef = useRef<AnalysisQueue | null>(null);
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+
+  const [segments, setSegments] = useState<Segment[]>([]);
+
+  const liveProject = useMemo<Project | null>(() => project && {
+    ...project,
+    sourceLanguage,
+    targetLanguage,
+    segments,
+    document: importedDocument,
+    settings: projectSettings,
+    qaSettings,
+  }, [project, sourceLanguage, targetLanguage, segments, importedDocument, projectSettings, qaSettings]);
+
+  // Set when a project is opened, so loading it does not immediately write it back.
+  const skipSaveRef = useRef(false);
+
+  // Edits are written once typing pauses; the project, with its document, is too large to store per keystroke.
+  const pendingSaveRef = useRef<Project | null>(null);
+  const saveTimerRef = useRef<number | null>(null);
+
+  const flushSave = useCallback(() => {
+    if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    return pending ? saveProject(pending).catch(e => console.error("Failed to save project", e)) : Promise.resolve();
+  }, []);
+
+  useEffect(() => {
+    if (!liveProject || projectError) return;
+    if (skipSaveRef.current) {
+      skipSaveRef.current = false;
+      return;
+    }
+    pendingSaveRef.current = { ...liveProject, updatedAt: Date.now() };
+    if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(flushSave, PROJECT_SAVE_DELAY_MS);
+  }, [liveProject, projectError, flushSave]);
+
+  useEffect(() => {
+    const flushWhenHidden = () => {
+      if (document.visibilityState === 'hidden') flushSave();
+    };
+    document.addEventListener('visibilitychange', flushWhenHidden);
+    window.addEventListener('beforeunload', flushSave);
+    return () => {
+      document.removeEventListener('visibilitychange', flushWhenHidden);
+      window.removeEventListener('beforeunload', flushSave);
+    };
+  }, [flushSave]);
+
+  useEffect(() => {
+    localStorage.setItem(GLOSSARY_KEY, JSON.stringify(glossary));
+  }, [glossary]);
+
+  useEffect(() => {
+    localStorage.setItem(CACHE_SETTINGS_KEY, JSON.stringify(cacheSettings));
+  }, [cacheSettings]);
+
+  useEffect(() => {
+    loadLocaleFont(sourceLanguage);
+    loadLocaleFont(targetLanguage);
+  }, [sourceLanguage, targetLanguage, customLocales]);
+
+  const updateCustomLocales = (next: Locale[]) => {
+    setCustomLocales(saveCustomLocales(next));
+  };
+
+  useEffect(() => {
+    localStorage.setItem(BATCH_SETTINGS_KEY, JSON.stringify(batchSettings));
+    queueRef.current?.updateSettings(batchSettings);
+  }, [batchSettings]);
+
+  // The batch queue outlives renders, so it reads segments through a ref.
+  const segmentsRef = useRef(segments);
+  segmentsRef.current = segments;
+
+  const undoRef = useRef(createUndoStack<Segment[]>());
+  const [undoAvailability, setUndoAvailability] = useState({ canUndo: false, canRedo: false });
+
+  const syncUndoAvailability = useCallback(() => {
+    setUndoAvailability({ canUndo: undoRef.current.canUndo(), canRedo: undoRef.current.canRedo() });
+  }, []);
+
+  const recordUndo = useCallback((coalesceKey?: string) => {
+    undoRef.current.record(segmentsRef.current, coalesceKey);
+    syncUndoAvailability();
+  }, [syncUndoAvailability]);
+
+  const resetUndo = useCallback(() => {
+    undoRef.current.clear();
+    syncUndoAvailability();
+  }, [syncUndoAvailability]);
+
+  // Restored snapshots keep the live analysis flags so an undo never resurrects a finished spinner.
+  const restoreSnapshot = useCallback((snapshot: Segment[] | null) => {
+    if (snapshot) {
+      setSegments(snapshot.map(seg => {
+        const current = segmentsRef.current.find(s => s.id === seg.id);
+        return { ...seg, isAnalyzing: current ? current.isAnalyzing : false, isBackTranslating: current ? current.isBackTranslating : false };
+      }));
+    }
+    syncUndoAvailability();
+  }, [syncUndoAvailability]);
+
+  const undo = useCallback(() => restoreSnapshot(undoRef.current.undo(segmentsRef.current)), [restoreSnapshot]);
+  const redo = useCallback(() => restoreSnapshot(undoRef.current.redo(segmentsRef.current)), [restoreSnapshot]);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(segments));
-  }, [segments]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Single-line inputs (glossary, search, settings) keep the browser's own undo.
+      if (e.target instanceof HTMLInputElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Switching projects stops everything still working on the previous one.
+  const applyProject = useCallback((next: Project) => {
+    queueRef.current?.cancel();
+    queueRef.current = null;
+    setBatchProgress(null);
+    abortControllersRef.current.forEach(controller => controller.abort());
+    abortControllersRef.current.clear();
+    resetUndo();
+    setSelectedIds([]);
+    setActiveSegmentId(null);
+
+    skipSaveRef.current = true;
+    setProject(next);
+    setSourceLanguage(next.sourceLanguage);
+    setTargetLanguage(next.targetLanguage);
+    setSegments(next.segments);
+    setImportedDocument(next.document);
+    setProjectSettings(next.settings);
+    setQaSettings(next.qaSettings);
+    setActiveProjectId(next.id);
+  }, [resetUndo]);
 
   useEffect(() => {
-    localStorage.setItem(LANGUAGE_KEY, targetLanguage);
-  }, [targetLanguage]);
+    openStartupProject()
+      .catch(e => {
+        console.error("Failed to open projects", e);
+        setProjectError(e.message || 'Project storage is not available.');
+        return fallbackProject();
+      })
+      .then(applyProject);
+  }, [applyProject]);
+
+  const refreshProjects = useCallback(() => {
+    listProjects().then(setProjects).catch(e => console.error("Failed to list projects", e));
+  }, []);
+
+  const openProjectManager = () => {
+    refreshProjects();
+    setIsProjectManagerOpen(true);
+  };
+
+  // Pending edits are written first, so actions reading stored projects see them.
+  const manageProjects = async (action: () => Promise<void>) => {
+    try {
+      await flushSave();
+      await action();
+    } catch (e: any) {
+      window.alert(e.message || 'The project could not be updated.');
+    }
+    refreshProjects();
+  };
+
+  const openProject = (id: string) => manageProjects(async () => {
+    applyProject(await loadProject(id));
+    setIsProjectManagerOpen(false);
+  });
+
+  const createNewProject = (name: string, source: string, target: string) => manageProjects(async () => {
+    const created = createProject(name, source, target);
+    await saveProject(created);
+    applyProject(created);
+    setIsProjectManagerOpen(false);
+  });
+
+  // The open project is renamed in state and saved with the next write, like any other edit.
+  const renameProject = (id: string, name: string) => manageProjects(async () => {
+    if (id === project?.id) {
+      setProject(prev => prev && { ...prev, name });
+    } else {
+      await saveProject({ ...await loadProject(id), name });
+    }
+  });
+
+  const copyProject = (id: string) => manageProjects(async () => {
+    const original = id === liveProject?.id ? liveProject : await loadProject(id);
+    await saveProject(duplicateProject(original));
+  });
+
+  const archiveProject = (id: string, archived: boolean) => manageProjects(async () => {
+    await saveProject({ ...await loadProject(id), archived });
+  });
+
+  const removeProject = (id: string) => manageProjects(() => deleteProject(id));
+
+  const exportProject = (id: string) => manageProjects(async () => {
+    const target = id === liveProject?.id ? liveProject : await loadProject(id);
+    const baseName = target.name.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'project';
+    downloadFile(`${baseName}.project.json`, exportProjectPackage(target, locales), 'application/json');
+  });
 
-  const handleSaveApiKey = (key: string) => {
-    setApiKey(key);
-    localStorage.setItem(API_KEY_STORAGE, key);
+  const [pendingPackage, setPendingPackage] = useState<{ fileName: string; parsed: ParsedPackage; existing: ProjectSummary | null } | null>(null);
+
+  const importProjectFile = async (file: File) => {
+    try {
+      const parsed = parseProjectPackage(await file.text());
+      const existing = projectList.find(summary => summary.id === parsed.pkg.project.id) || null;
+      setPendingPackage({ fileName: file.name, parsed, existing });
+      setIsProjectManagerOpen(false);
+    } catch (e: any) {
+      setImportSummary({ format: 'Project package', fileName: file.name, imported: 0, skipped: [], details: [], error: e.message || 'Could not read file.' });
+    }
   };
 
-  const handleLanguageChange = (lang: string) => {
-    setTargetLanguage(lang);
+  const applyProjectPackage = (mode: PackageImportMode) => manageProjects(async () => {
+    if (!pendingPackage) return;
+    const { fileName, parsed, existing } = pendingPackage;
+    const incoming = parsed.pkg.project;
+    const details = [...parsed.details];
+    setPendingPackage(null);
+
+    const missingLocales = parsed.pkg.locales.filter(locale => !locales.some(known => known.name === locale.name));
+    if (missingLocales.length > 0) {
+      updateCustomLocales([...customLocales, ...missingLocales]);
+      details.push(`Added custom language${missingLocales.length === 1 ? '' : 's'} ${missingLocales.map(l => l.name).join(', ')}`);
+    }
+
+    if (!existing || mode === 'copy') {
+      const restored = existing ? duplicateProject(incoming) : incoming;
+      await saveProject(restored);
+      applyProject(restored);
+      details.push(`Restored as "${restored.name}"`);
+      setImportSummary({ format: 'Project package', fileName, imported: incoming.segments.length, skipped: parsed.skipped, details });
+      return;
+    }
+
+    // Merging into the open project starts from its live state, which may be ahead of the stored copy.
+    const target = existing.id === liveProject?.id ? liveProject : await loadProject(existing.id);
+    const { segments: combined, added, unchanged, conflicts } = combineSegments(target.segments, incoming.segments, mode);
+    const updated = { ...target, segments: combined, updatedAt: Date.now() };
+    await saveProject(updated);
+    applyProject(updated);
+    details.push(`${mode === 'merge' ? 'Merged into' : 'Replaced segments in'} "${target.name}": ${added} added, ${unchanged} unchanged`);
+    if (target.sourceLanguage !== incoming.sourceLanguage || target.targetLanguage !== incoming.targetLanguage) {
+      details.push(`Package is ${incoming.sourceLanguage} → ${incoming.targetLanguage}; kept ${target.sourceLanguage} → ${target.targetLanguage}`);
+    }
+    setImportSummary({
+      format: 'Project package',
+      fileName,
+      imported: added + (mode === 'replace' ? conflicts.length : 0),
+      skipped: parsed.skipped,
+      details,
+      conflicts,
+    });
+  });
+
+  // Stored summaries lag behind the open project until its next save, so it is listed from live state.
+  const isModalOpen = isApiKeyModalOpen || isProjectManagerOpen || isLocalePanelOpen || isGlossaryOpen || isMemoryOpen
+    || isProjectSettingsOpen || !!importSummary || !!pendingPackage || !!pendingSubtitles;
+
+  const projectList = projects.map(summary => summary.id === liveProject?.id
+    ? { ...summarizeProject(liveProject), updatedAt: summary.updatedAt }
+    : summary
+  );
+
+  const handleSaveAiSettings = (settings: AISettings) => {
+    setAiSettings(settings);
+    localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+    localStorage.removeItem(API_KEY_STORAGE);
   };
 
   const addSegment = () => {
@@ -67,87 +450,581 @@ const App: React.FC = () => {
       wordBreakdown: [],
       isAnalyzing: false,
     };
+    recordUndo();
     setSegments(prev => [...prev, newSegment]);
   };
 
   const clearAllSegments = () => {
     if (window.confirm('Clear all segments?')) {
+      queueRef.current?.cancel();
+      resetUndo();
       setSegments([]);
+      setSelectedIds([]);
+      setImportedDocument(null);
     }
   };
 
-  const updateSegment = useCallback((id: string, updates: Partial<Segment>) => {
+  const confirmReplace = (count: number, fileName: string) => {
+    const hasWork = segments.some(s => s.sourceText.trim() || s.targetText.trim());
+    return !hasWork || window.confirm(`Replace the current working set with ${count} segments from ${fileName}?`);
+  };
+
+  const loadWorkingSet = (next: Segment[], document: ImportedDocument, summary: ImportSummary) => {
+    queueRef.current?.cancel();
+    setSelectedIds([]);
+    resetUndo();
+    setSegments(next);
+    setImportedDocument(document);
+    setImportSummary(summary);
+  };
+
+  const importFile = async (file: File) => {
+    if (SUBTITLE_FILE_PATTERN.test(file.name)) {
+      setPendingSubtitles(file);
+      return;
+    }
+    // A file that cannot be read is reported like one that cannot be parsed.
+    let content: string;
+    let result;
+    try {
+      content = await file.text();
+      result = parseXliff(content, file.name);
+    } catch (e: any) {
+      setImportSummary({
+        format: 'XLIFF',
+        fileName: file.name,
+        imported: 0,
+        skipped: [],
+        details: [],
+        error: e.message || 'Could not read file.',
+      });
+      return;
+    }
+
+    if (!confirmReplace(result.segments.length, file.name)) return;
+
+    const summary = result.summary;
+    const applyLanguage = (code: string | null, label: string, current: string, apply: (language: string) => void) => {
+      if (!code) return;
+      const language = languageFromCode(code);
+      if (language && isKnownLanguage(language)) {
+        apply(language);
+        summary.details.push(`${label} language set to ${language}`);
+      } else {
+        summary.details.push(`${label} language "${code}" is not supported; kept ${current}`);
+      }
+    };
+    applyLanguage(result.sourceLanguage, 'Source', sourceLanguage, setSourceLanguage);
+    applyLanguage(result.targetLanguage, 'Target', targetLanguage, setTargetLanguage);
+
+    loadWorkingSet(result.segments, { format: 'xliff', version: result.version, fileName: file.name, content }, summary);
+  };
+
+  const importSubtitleFiles = async (sourceFile: File, translationFile: File | null, alignment: CueAlignment) => {
+    setPendingSubtitles(null);
+    let content: string;
+    let result;
+    try {
+      content = await sourceFile.text();
+      const translation = translationFile && { name: translationFile.name, content: await translationFile.text() };
+      result = importSubtitles({ name: sourceFile.name, content }, translation, alignment);
+    } catch (e: any) {
+      setImportSummary({
+        format: 'Subtitles',
+        fileName: translationFile ? `${sourceFile.name} + ${translationFile.name}` : sourceFile.name,
+        imported: 0,
+        skipped: [],
+        details: [],
+        error: e.message || 'Could not read file.',
+      });
+      return;
+    }
+
+    if (!confirmReplace(result.segments.length, sourceFile.name)) return;
+    loadWorkingSet(result.segments, { format: result.format, fileName: sourceFile.name, content }, result.summary);
+  };
+
+  const exportSegments = (format: ExportFormat) => {
+    const options = { sourceLanguage, targetLanguage };
+    const baseName = importedDocument?.fileName || `segments-${codeForLanguage(targetLanguage)}.xlf`;
+
+    if (format === 'tmx') {
+      const approved = segments.filter(s => s.status === SegmentStatus.Approved).length;
+      if (approved === 0) {
+        window.alert('No approved segments to export. Only approved segments go into the TMX.');
+        return;
+      }
+      downloadFile(withSuffix(baseName, 'approved', 'tmx'), exportTmx(segments, options), 'application/x-tmx+xml');
+      return;
+    }
+
+    if (format === 'srt' || format === 'vtt') {
+      if (!segments.some(subtitleTiming)) {
+        window.alert('No subtitle cues to export. Only segments imported from an SRT or WebVTT file have timings.');
+        return;
+      }
+      const subtitleDocument = importedDocument?.format === 'xliff' ? null : importedDocument;
+      downloadFile(
+        withSuffix(baseName, 'reviewed', format),
+        exportSubtitles(segments, format, subtitleDocument),
+        format === 'vtt' ? 'text/vtt' : 'application/x-subrip'
+      );
+      return;
+    }
+
+    const xliffDocument = importedDocument?.format === 'xliff' ? importedDocument : null;
+    const xliff = exportXliff(segments, { ...options, document: xliffDocument });
+    downloadFile(withSuffix(baseName, 'reviewed', xliffDocument ? undefined : 'xlf'), xliff, 'application/xliff+xml');
+  };
+
+  const setGlossaryEntries = (entries: GlossaryEntry[]) => {
+    setGlossary(prev => ({ ...prev, [languagePair(sourceLanguage, targetLanguage)]: entries }));
+  };
+
+  const importGlossaryFile = async (file: File) => {
+    const isCsv = file.name.toLowerCase().endsWith('.csv');
+    const format = isCsv ? 'Glossary CSV' : 'Glossary TBX';
+    let imported: GlossaryEntry[];
+    try {
+      const content = await file.text();
+      imported = isCsv
+        ? parseGlossaryCsv(content)
+        : parseTbx(content, codeForLanguage(sourceLanguage), codeForLanguage(targetLanguage));
+    } catch (e: any) {
+      setImportSummary({ format, fileName: file.name, imported: 0, skipped: [], details: [], error: e.message || 'Could not read file.' });
+      return;
+    }
+
+    // Terms already in the glossary are replaced by the imported version.
+    const incoming = new Map(imported.map(entry => [entry.source.toLowerCase(), entry]));
+    const kept = glossaryEntries.filter(entry => !incoming.has(entry.source.toLowerCase()));
+    const replaced = glossaryEntries.length - kept.length;
+    setGlossaryEntries([...kept, ...incoming.values()]);
+    setImportSummary({
+      format,
+      fileName: file.name,
+      imported: incoming.size,
+      skipped: [],
+      details: [
+        `Added to the ${sourceLanguage} → ${targetLanguage} glossary`,
+        ...(replaced > 0 ? [`${replaced} existing term${replaced === 1 ? '' : 's'} updated`] : []),
+        ...(imported.length > incoming.size ? [`${imported.length - incoming.size} duplicate rows merged`] : []),
+      ],
+    });
+  };
+
+  const report = useMemo(
+    () => view === 'dashboard' ? buildQualityReport(segments, sourceLanguage, targetLanguage) : null,
+    [view, segments, sourceLanguage, targetLanguage]
+  );
+
+  const exportReport = (format: 'html' | 'csv') => {
+    const baseName = `review-report-${codeForLanguage(sourceLanguage)}-${codeForLanguage(targetLanguage)}`;
+    if (format === 'csv') {
+      downloadFile(`${baseName}.csv`, exportReportCsv(segments), 'text/csv');
+    } else if (report) {
+      downloadFile(`${baseName}.html`, exportReportHtml(report, segments), 'text/html');
+    }
+  };
+
+  const showSegment = (id: string) => {
+    setView('segments');
+    setActiveSegmentId(id);
+  };
+
+  const importMemoryFile = async (file: File) => {
+    try {
+      const { pairs, skipped } = parseTmx(await file.text(), sourceLanguage, targetLanguage);
+      rememberTranslations(pairs.map(p => createMemoryEntry(sourceLanguage, targetLanguage, p.sourceText, p.targetText, 'tmx')));
+      setImportSummary({
+        format: 'TMX',
+        fileName: file.name,
+        imported: pairs.length,
+        skipped: [],
+        details: [
+          `Added to the ${sourceLanguage} → ${targetLanguage} memory`,
+          ...(skipped > 0 ? [`${skipped} unit${skipped === 1 ? '' : 's'} without both ${sourceLanguage} and ${targetLanguage} text ignored`] : []),
+        ],
+      });
+    } catch (e: any) {
+      setImportSummary({ format: 'TMX', fileName: file.name, imported: 0, skipped: [], details: [], error: e.message || 'Could not read file.' });
+    }
+  };
+
+  const exportGlossary = (format: 'csv' | 'tbx') => {
+    const baseName = `glossary-${codeForLanguage(targetLanguage)}`;
+    if (format === 'csv') {
+      downloadFile(`${baseName}.csv`, exportGlossaryCsv(glossaryEntries), 'text/csv');
+    } else {
+      downloadFile(`${baseName}.tbx`, exportTbx(glossaryEntries, codeForLanguage(sourceLanguage), codeForLanguage(targetLanguage)), 'application/x-tbx+xml');
+    }
+  };
+
+  const updateSegment = useCallback((id: string, updates: Partial<Segment>, origin: RevisionOrigin = 'edit') => {
+    if (origin !== 'analysis') {
+      const isTyping = Object.keys(updates).every(key => key === 'sourceText' || key === 'targetText');
+      recordUndo(isTyping ? `typing:${id}` : undefined);
+    }
     setSegments(prev => prev.map(seg => 
-      seg.id === id ? { ...seg, ...updates } : seg
+      seg.id === id ? applyWithHistory(seg, updates, origin) : seg
     ));
-  }, []);
+
+    // Approving a segment feeds its translation into the memory for the current pair.
+    const segment = segmentsRef.current.find(s => s.id === id);
+    if (segment && updates.status === SegmentStatus.Approved) {
+      const approved = { ...segment, ...updates };
+      if (approved.sourceText.trim() && approved.targetText.trim()) {
+        rememberTranslations([createMemoryEntry(sourceLanguage, targetLanguage, approved.sourceText, approved.targetText, 'approved')]);
+      }
+    }
+  }, [sourceLanguage, targetLanguage, rememberTranslations, recordUndo]);
+
+  // A replacement invalidates any earlier review of the segment, so it goes back to Pending.
+  const replaceTargets = (changes: Array<{ id: string; targetText: string }>) => {
+    if (changes.length === 0) return;
+    const byId = new Map(changes.map(change => [change.id, change.targetText]));
+    recordUndo();
+    setSegments(prev => prev.map(seg => byId.has(seg.id)
+      ? applyWithHistory(seg, { targetText: byId.get(seg.id)!, status: SegmentStatus.Pending }, 'edit')
+      : seg
+    ));
+  };
 
   const deleteSegment = useCallback((id: string) => {
+    recordUndo();
     setSegments(prev => prev.filter(seg => seg.id !== id));
-  }, []);
+    setSelectedIds(prev => prev.filter(selected => selected !== id));
+  }, [recordUndo]);
 
-  const runAnalysis = useCallback(async (id: string) => {
-    const segment = segments.find(s => s.id === id);
-    if (!segment) return;
+  const hasApiKey = isProviderConfigured(aiSettings);
 
-    if (!apiKey && !process.env.API_KEY) {
-      setIsApiKeyModalOpen(true);
-      return;
-    }
+  const analyzeSegment = useCallback(async (id: string, inBatch: boolean, force = false): Promise<QueueTaskResult> => {
+    const segment = segmentsRef.current.find(s => s.id === id);
+    if (!segment || !segment.sourceText || !segment.targetText) return { outcome: 'done' };
 
-    updateSegment(id, { isAnalyzing: true, aiFeedback: null, wordBreakdown: [] });
+    // Kept so a cancelled check puts the previous results back.
+    const previous: Partial<Segment> = {
+      aiFeedback: segment.aiFeedback,
+      wordBreakdown: segment.wordBreakdown,
+      issues: segment.issues,
+      suggestedTarget: segment.suggestedTarget,
+      cachedAt: segment.cachedAt,
+      promptVersion: segment.promptVersion,
+    };
+    // Registered before anything is awaited, so Cancel works from the moment the row starts spinning.
+    const controller = new AbortController();
+    abortControllersRef.current.get(id)?.abort();
+    abortControllersRef.current.set(id, controller);
+    updateSegment(id, { isAnalyzing: true, aiFeedback: null, wordBreakdown: [], issues: [], suggestedTarget: null, analysisError: null, cachedAt: null }, 'analysis');
 
-    const result = await analyzeTranslation(
-      segment.sourceText,
-      segment.targetText,
+    // The model sees markers in place of placeholders and tags; its output gets the originals back.
+    const { request, restorePartial, restoreResult } = protectMarkup({
+      sourceText: segment.sourceText,
+      targetText: segment.targetText,
+      sourceLanguage,
       targetLanguage,
-      apiKey
-    );
+      glossary: findGlossaryMatches(segment.sourceText, glossaryEntries).map(match => match.entry),
+      project: projectSettings,
+    });
 
-    if (typeof result === 'string') {
-        const isQuota = result.includes("429");
-        updateSegment(id, { 
-            isAnalyzing: false, 
-            aiFeedback: result,
-            status: isQuota ? SegmentStatus.Pending : SegmentStatus.NeedsWork
+    let outcome: AnalysisOutcome;
+    let cacheKey: string | null = null;
+    let cached: CachedAnalysis | null = null;
+    try {
+      // The cache only ever saves calls, so a failing lookup is treated as a miss.
+      try {
+        cacheKey = cacheSettings.enabled ? await analysisCacheKey(request, aiSettings) : null;
+        cached = cacheKey && !force ? await readCachedAnalysis(cacheKey) : null;
+      } catch (e) {
+        console.error("Failed to look up cached analysis", e);
+        cacheKey = null;
+      }
+      if (controller.signal.aborted) {
+        outcome = { ok: false, error: { code: 'cancelled', message: 'The check was cancelled.', timestamp: Date.now() } };
+      } else if (cached) {
+        outcome = { ok: true, result: cached.result };
+      } else {
+        outcome = await analyzeTranslation(request, aiSettings, {
+          signal: controller.signal,
+          onPartial: (partial) => {
+            const { feedback, wordBreakdown } = restorePartial(partial);
+            if (!controller.signal.aborted) updateSegment(id, { aiFeedback: feedback || null, wordBreakdown }, 'analysis');
+          },
         });
-    } else {
-        const analysis = result as AnalysisResult;
+      }
+    } catch (e: any) {
+      outcome = { ok: false, error: { code: 'unknown', message: e?.message || 'The check failed.', timestamp: Date.now() } };
+    }
+    const isCurrent = abortControllersRef.current.get(id) === controller;
+    if (isCurrent) abortControllersRef.current.delete(id);
+
+    if (!outcome.ok && outcome.error.code === 'cancelled') {
+        // A newer check of the same segment superseded this one and owns the row now.
+        if (isCurrent) updateSegment(id, { ...previous, isAnalyzing: false }, 'analysis');
+        return { outcome: 'failed' };
+    }
+
+    if (!outcome.ok) {
+        const isQuota = outcome.error.code === 'quota';
+        // Inside a batch the queue retries quota failures, so the row just goes back to waiting.
         updateSegment(id, { 
             isAnalyzing: false, 
-            aiFeedback: analysis.feedback,
-            wordBreakdown: analysis.wordBreakdown || [],
-            status: SegmentStatus.Reviewed
-        });
+            analysisError: isQuota && inBatch ? null : outcome.error,
+        }, 'analysis');
+        return isQuota
+          ? { outcome: 'retry', retryAfterMs: outcome.error.retryAfterMs, error: outcome.error }
+          : { outcome: 'failed' };
+    }
+
+    // The cache keeps the masked result, which is what its key describes.
+    if (cacheKey && !cached) writeCachedAnalysis(cacheKey, outcome.result, cacheSettings);
+    const analysis = restoreResult(outcome.result);
+    const worstIssue = mostSevereIssue(analysis.issues);
+    updateSegment(id, { 
+        isAnalyzing: false, 
+        aiFeedback: analysis.feedback,
+        wordBreakdown: analysis.wordBreakdown || [],
+        issues: analysis.issues,
+        suggestedTarget: analysis.suggestedTarget,
+        cachedAt: cached ? cached.createdAt : null,
+        promptVersion: activePromptTemplate(projectSettings).version,
+        category: worstIssue ? worstIssue.category : segment.category,
+        status: SegmentStatus.Reviewed
+    }, 'analysis');
+    return { outcome: 'done', cached: !!cached };
+  }, [sourceLanguage, targetLanguage, updateSegment, aiSettings, glossaryEntries, cacheSettings, projectSettings]);
+
+  const analyzeSegmentRef = useRef(analyzeSegment);
+  analyzeSegmentRef.current = analyzeSegment;
+
+  const runAnalysis = useCallback(async (id: string, force = false) => {
+    if (!hasApiKey) {
+      setIsApiKeyModalOpen(true);
+      return;
     }
-  }, [segments, targetLanguage, updateSegment, apiKey]);
+    await analyzeSegment(id, false, force);
+  }, [analyzeSegment, hasApiKey]);
+
+  const backTranslateSegment = useCallback(async (id: string): Promise<AnalysisError | null> => {
+    const segment = segmentsRef.current.find(s => s.id === id);
+    if (!segment || !segment.sourceText || !segment.targetText) return null;
+    if (!hasApiKey) {
+      setIsApiKeyModalOpen(true);
+      return null;
+    }
+
+    updateSegment(id, { isBackTranslating: true }, 'analysis');
+    const outcome = await backTranslate({
+      sourceText: segment.sourceText,
+      targetText: segment.targetText,
+      sourceLanguage,
+      targetLanguage,
+    }, aiSettings);
+    updateSegment(id, outcome.ok ? { isBackTranslating: false, backTranslation: outcome.result } : { isBackTranslating: false }, 'analysis');
+    return outcome.ok ? null : outcome.error;
+  }, [hasApiKey, sourceLanguage, targetLanguage, aiSettings, updateSegment]);
+
+  const cancelAnalysis = useCallback((id: string) => {
+    abortControllersRef.current.get(id)?.abort();
+  }, []);
+
+  const toggleSelect = useCallback((id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  }, []);
+
+  const isAnalyzable = (segment: Segment) => !!segment.sourceText.trim() && !!segment.targetText.trim();
+
+  const batchEligible = segments.filter(s =>
+    isAnalyzable(s) && (s.status === SegmentStatus.Pending || s.status === SegmentStatus.NeedsWork)
+  );
+
+  const startBatch = () => {
+    if (!hasApiKey) {
+      setIsApiKeyModalOpen(true);
+      return;
+    }
+    const ids = selectedIds.length > 0
+      ? segments.filter(s => selectedIds.includes(s.id) && isAnalyzable(s)).map(s => s.id)
+      : batchEligible.map(s => s.id);
+    if (ids.length === 0) return;
+
+    if (!queueRef.current || batchProgress?.isFinished) {
+      // Tasks still in flight when the queue is dropped report back late; only the current queue updates the view.
+      const queue = createAnalysisQueue({
+        settings: batchSettings,
+        worker: (id) => analyzeSegmentRef.current(id, true),
+        onProgress: (progress) => { if (queueRef.current === queue) setBatchProgress(progress); },
+        // The row hid its quota error while a retry was due; once the queue stops retrying it shows it.
+        onGiveUp: (id, result) => updateSegment(id, { analysisError: result.error ?? null }, 'analysis'),
+      });
+      queueRef.current = queue;
+    }
+    queueRef.current.start(ids);
+    setSelectedIds([]);
+  };
+
+  const dismissBatch = () => {
+    queueRef.current = null;
+    setBatchProgress(null);
+  };
 
   return (
     <div className="min-h-screen flex flex-col font-sans bg-slate-50">
       <Header 
-        selectedLanguage={targetLanguage} 
-        onLanguageChange={handleLanguageChange} 
+        projectName={project?.name || ''}
+        onOpenProjects={openProjectManager}
+        locales={locales}
+        onOpenLocales={() => setIsLocalePanelOpen(true)}
+        sourceLanguage={sourceLanguage}
+        onSourceLanguageChange={setSourceLanguage}
+        targetLanguage={targetLanguage} 
+        onTargetLanguageChange={setTargetLanguage} 
         onOpenApiKeyModal={() => setIsApiKeyModalOpen(true)}
-        hasKey={!!apiKey || !!process.env.API_KEY}
+        hasKey={hasApiKey}
+        providerLabel={getProvider(aiSettings.provider).label}
+        onOpenGlossary={() => setIsGlossaryOpen(true)}
+        glossaryCount={glossaryEntries.length}
+        onOpenMemory={() => setIsMemoryOpen(true)}
+        onOpenProjectSettings={() => setIsProjectSettingsOpen(true)}
+        memoryCount={memoryEntries.length}
+        view={view}
+        onViewChange={setView}
       />
       
+      {projectError && (
+        <div className="bg-rose-50 border-b border-rose-200 px-4 py-2 text-center text-xs font-medium text-rose-700">
+          Projects could not be opened ({projectError}). Changes made in this session will not be saved.
+        </div>
+      )}
+
       <main className="flex-grow">
-        <SegmentList
-          segments={segments}
-          targetLanguage={targetLanguage}
-          onUpdate={updateSegment}
-          onDelete={deleteSegment}
-          onRunAnalysis={runAnalysis}
-          onAddSegment={addSegment}
-          onClearAll={clearAllSegments}
-        />
+        {!project ? (
+          <div className="py-24 text-center text-sm text-slate-400">Opening project...</div>
+        ) : view === 'dashboard' && report ? (
+          <Dashboard report={report} onExport={exportReport} onSelectSegment={showSegment} />
+        ) : (
+          <SegmentList
+            segments={segments}
+            sourceLanguage={sourceLanguage}
+            targetLanguage={targetLanguage}
+            onUpdate={updateSegment}
+            onDelete={deleteSegment}
+            onRunAnalysis={runAnalysis}
+            onCancelAnalysis={cancelAnalysis}
+            onBackTranslate={backTranslateSegment}
+            onAddSegment={addSegment}
+            onClearAll={clearAllSegments}
+            onImportFile={importFile}
+            onExport={exportSegments}
+            selectedIds={selectedIds}
+            onToggleSelect={toggleSelect}
+            batchProgress={batchProgress}
+            batchSettings={batchSettings}
+            batchEligibleCount={batchEligible.length}
+            onStartBatch={startBatch}
+            onPauseBatch={() => queueRef.current?.pause()}
+            onResumeBatch={() => queueRef.current?.resume()}
+            onCancelBatch={() => queueRef.current?.cancel()}
+            onDismissBatch={dismissBatch}
+            onBatchSettingsChange={setBatchSettings}
+            onOpenSettings={() => setIsApiKeyModalOpen(true)}
+            glossaryEntries={glossaryEntries}
+            qaSettings={qaSettings}
+            onQaSettingsChange={setQaSettings}
+            memoryEntries={memoryEntries}
+            canUndo={undoAvailability.canUndo}
+            canRedo={undoAvailability.canRedo}
+            onUndo={undo}
+            onRedo={redo}
+            onReplaceTargets={replaceTargets}
+            activeSegmentId={activeSegmentId}
+            onActiveSegmentChange={setActiveSegmentId}
+            modalOpen={isModalOpen}
+          />
+        )}
       </main>
 
       <ApiKeyModal 
         isOpen={isApiKeyModalOpen}
         onClose={() => setIsApiKeyModalOpen(false)}
-        onSave={handleSaveApiKey}
-        currentKey={apiKey}
+        onSave={handleSaveAiSettings}
+        currentSettings={aiSettings}
+        cacheSettings={cacheSettings}
+        onCacheSettingsChange={setCacheSettings}
+      />
+
+      <ProjectManager
+        isOpen={isProjectManagerOpen}
+        onClose={() => setIsProjectManagerOpen(false)}
+        projects={projectList}
+        activeProjectId={project?.id || null}
+        locales={locales}
+        sourceLanguage={sourceLanguage}
+        targetLanguage={targetLanguage}
+        onOpenProject={openProject}
+        onCreate={createNewProject}
+        onRename={renameProject}
+        onDuplicate={copyProject}
+        onArchive={archiveProject}
+        onDelete={removeProject}
+        onExport={exportProject}
+        onImportFile={importProjectFile}
+      />
+
+      <ProjectPackageModal
+        fileName={pendingPackage?.fileName || ''}
+        parsed={pendingPackage?.parsed || null}
+        existing={pendingPackage?.existing || null}
+        onApply={applyProjectPackage}
+        onClose={() => setPendingPackage(null)}
+      />
+
+      <SubtitleImportModal
+        // Remounted on each opening so a translation picked last time is not carried over.
+        key={pendingSubtitles ? 'open' : 'closed'}
+        sourceFile={pendingSubtitles}
+        onImport={importSubtitleFiles}
+        onClose={() => setPendingSubtitles(null)}
+      />
+
+      <LocalePanel
+        isOpen={isLocalePanelOpen}
+        onClose={() => setIsLocalePanelOpen(false)}
+        locales={locales}
+        customLocales={customLocales}
+        onChangeCustom={updateCustomLocales}
+      />
+
+      <ProjectSettingsPanel
+        isOpen={isProjectSettingsOpen}
+        onClose={() => setIsProjectSettingsOpen(false)}
+        settings={projectSettings}
+        onChange={setProjectSettings}
+      />
+
+      <MemoryPanel
+        isOpen={isMemoryOpen}
+        onClose={() => setIsMemoryOpen(false)}
+        sourceLanguage={sourceLanguage}
+        targetLanguage={targetLanguage}
+        entries={memoryEntries}
+        onRemove={forgetTranslations}
+        onImportFile={importMemoryFile}
+      />
+      <GlossaryPanel
+        isOpen={isGlossaryOpen}
+        onClose={() => setIsGlossaryOpen(false)}
+        sourceLanguage={sourceLanguage}
+        targetLanguage={targetLanguage}
+        entries={glossaryEntries}
+        onChange={setGlossaryEntries}
+        onImportFile={importGlossaryFile}
+        onExport={exportGlossary}
+      />
+
+      <ImportSummaryModal
+        summary={importSummary}
+        onClose={() => setImportSummary(null)}
       />
 
       <footer className="bg-white border-t border-slate-200 py-10">
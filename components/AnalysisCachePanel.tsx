@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Trash2, Scissors } from 'lucide-react';
+import { AnalysisCacheSettings } from '../types';
+import { AnalysisCacheStats, getAnalysisCacheStats, evictAnalyses, clearAnalysisCache } from '../services/analysisCache';
+
+interface AnalysisCachePanelProps {
+  settings: AnalysisCacheSettings;
+  onChange: (settings: AnalysisCacheSettings) => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const AnalysisCachePanel: React.FC<AnalysisCachePanelProps> = ({ settings, onChange }) => {
+  const [stats, setStats] = useState<AnalysisCacheStats | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refresh = () => {
+    getAnalysisCacheStats()
+      .then(setStats)
+      .catch(e => console.error("Failed to read analysis cache", e));
+  };
+
+  useEffect(refresh, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      console.error("Failed to update analysis cache", e);
+    }
+    setIsBusy(false);
+    refresh();
+  };
+
+  const inputClass = 'w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-gray-100">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <Database className="w-4 h-4 text-gray-400" /> Analysis cache
+        </label>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        Unchanged and duplicate segments reuse earlier results instead of calling the provider again.
+        {stats && ` ${stats.entries} cached ${stats.entries === 1 ? 'result' : 'results'}, ${formatBytes(stats.bytes)}.`}
+      </p>
+      <div className="flex items-center gap-4 text-xs text-gray-600">
+        <label className="flex items-center gap-2">
+          Keep at most
+          <input
+            type="number"
+            min={1}
+            value={settings.maxEntries}
+            onChange={(e) => onChange({ ...settings, maxEntries: Math.max(1, Number(e.target.value) || 1) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Expire after
+          <input
+            type="number"
+            min={0}
+            value={settings.maxAgeDays}
+            onChange={(e) => onChange({ ...settings, maxAgeDays: Math.max(0, Number(e.target.value) || 0) })}
+            className={inputClass}
+          />
+          days
+        </label>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => run(() => evictAnalyses(settings))}
+          disabled={isBusy || !stats || stats.entries === 0}
+          className="px-3 py-1.5 text-xs font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg flex items-center gap-1.5 disabled:opacity-50"
+        >
+          <Scissors className="w-3.5 h-3.5" /> Evict now
+        </button>
+        <button
+          onClick={() => run(clearAnalysisCache)}
+          disabled={isBusy || !stats || stats.entries === 0}
+          className="px-3 py-1.5 text-xs font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg flex items-center gap-1.5 disabled:opacity-50"
+        >
+          <Trash2 className="w-3.5 h-3.5" /> Clear cache
+        </button>
+      </div>
+    </div>
+  );
+};
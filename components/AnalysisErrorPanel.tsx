@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Clock, KeyRound, RefreshCw, ShieldAlert, WifiOff, FileWarning, X, CircleSlash } from 'lucide-react';
+import { AnalysisError, AnalysisErrorCode } from '../types';
+
+interface AnalysisErrorPanelProps {
+  error: AnalysisError;
+  onRetry: () => void;
+  onOpenSettings: () => void;
+  onDismiss: () => void;
+}
+
+type RecoveryAction = 'settings' | 'retry';
+
+const ERROR_COPY: Record<AnalysisErrorCode, { title: string; description: string; action: RecoveryAction; icon: React.ElementType }> = {
+  missing_key: {
+    title: 'API Key Missing',
+    description: 'Add a key for the selected provider in AI Settings, then run the check again.',
+    action: 'settings',
+    icon: KeyRound,
+  },
+  invalid_key: {
+    title: 'API Key Rejected',
+    description: 'The provider did not accept your key. Check that it is correct and has access to the chosen model.',
+    action: 'settings',
+    icon: KeyRound,
+  },
+  quota: {
+    title: 'Quota Limit Reached',
+    description: 'You have reached the request limit for this provider. Wait for the quota window to reset, or use a paid key.',
+    action: 'retry',
+    icon: Clock,
+  },
+  network: {
+    title: 'Provider Unreachable',
+    description: 'The request did not reach the provider. Check your connection and the base URL in AI Settings.',
+    action: 'retry',
+    icon: WifiOff,
+  },
+  blocked: {
+    title: 'Response Blocked',
+    description: "The provider's safety filters refused this content. Rephrase the segment or try another model.",
+    action: 'settings',
+    icon: ShieldAlert,
+  },
+  bad_response: {
+    title: 'Unreadable Response',
+    description: 'The model replied with output that does not match the audit format. Retrying usually helps; otherwise try another model.',
+    action: 'retry',
+    icon: FileWarning,
+  },
+  cancelled: {
+    title: 'Check Cancelled',
+    description: 'The request was stopped before the provider finished answering.',
+    action: 'retry',
+    icon: CircleSlash,
+  },
+  unknown: {
+    title: 'Analysis Failed',
+    description: 'Something unexpected went wrong while checking this segment.',
+    action: 'retry',
+    icon: AlertTriangle,
+  },
+};
+
+export const AnalysisErrorPanel: React.FC<AnalysisErrorPanelProps> = ({ error, onRetry, onOpenSettings, onDismiss }) => {
+  const copy = ERROR_COPY[error.code] || ERROR_COPY.unknown;
+  const Icon = copy.icon;
+  const retryAt = error.retryAfterMs !== undefined ? error.timestamp + error.retryAfterMs : null;
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!retryAt || retryAt <= Date.now()) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const secondsLeft = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+
+  return (
+    <div className="p-8 border-t border-slate-100 animate-fadeIn bg-rose-50">
+      <div className="flex items-start gap-5">
+        <div className="mt-1 p-2.5 rounded-2xl shadow-xl bg-rose-600">
+          <Icon className="w-4 h-4 text-white" />
+        </div>
+        <div className="flex-1">
+          <div className="flex items-center justify-between mb-4 border-b border-rose-200 pb-2">
+            <h4 className="text-[11px] font-black uppercase tracking-[0.2em] text-rose-900">
+              System Alert: {copy.title}
+            </h4>
+            <button onClick={onDismiss} className="text-rose-300 hover:text-rose-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-sm leading-relaxed font-medium text-rose-800">{copy.description}</p>
+          <p className="text-[11px] mt-2 text-rose-500 font-mono break-all">
+            {error.status ? `[${error.status}] ` : ''}{error.message.substring(0, 200)}
+          </p>
+          <div className="mt-4 flex items-center gap-3">
+            {copy.action === 'settings' ? (
+              <button
+                onClick={onOpenSettings}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-black text-white bg-rose-600 hover:bg-rose-700 uppercase tracking-widest"
+              >
+                <KeyRound className="w-3.5 h-3.5" /> Open AI Settings
+              </button>
+            ) : (
+              <button
+                onClick={onRetry}
+                disabled={secondsLeft > 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-black text-white bg-rose-600 hover:bg-rose-700 uppercase tracking-widest disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RefreshCw className="w-3.5 h-3.5" />
+                {secondsLeft > 0 ? `Retry in ${secondsLeft}s` : 'Retry'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
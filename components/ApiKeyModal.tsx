@@ -1,59 +1,138 @@
 import React, { useState, useEffect } from 'react';
 import { Key, Save, X, ExternalLink, Trash2 } from 'lucide-react';
+import { AISettings, ProviderConfig, ProviderId, AnalysisCacheSettings } from '../types';
+import { PROVIDERS } from '../services/analysisService';
+import { AnalysisCachePanel } from './AnalysisCachePanel';
 
 interface ApiKeyModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (key: string) => void;
-  currentKey: string;
+  onSave: (settings: AISettings) => void;
+  currentSettings: AISettings;
+  cacheSettings: AnalysisCacheSettings;
+  onCacheSettingsChange: (settings: AnalysisCacheSettings) => void;
 }
 
-export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, currentKey }) => {
-  const [keyInput, setKeyInput] = useState(currentKey);
+export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, currentSettings, cacheSettings, onCacheSettingsChange }) => {
+  const [draft, setDraft] = useState<AISettings>(currentSettings);
   const [isVisible, setIsVisible] = useState(false);
 
   useEffect(() => {
-    setKeyInput(currentKey);
-  }, [currentKey, isOpen]);
+    setDraft(currentSettings);
+  }, [currentSettings, isOpen]);
 
   if (!isOpen) return null;
 
+  const provider = PROVIDERS[draft.provider];
+  const config = draft.providers[draft.provider];
+  const savedKey = currentSettings.providers[draft.provider].apiKey;
+
+  const updateConfig = (updates: Partial<ProviderConfig>) => {
+    setDraft({
+      ...draft,
+      providers: { ...draft.providers, [draft.provider]: { ...config, ...updates } },
+    });
+  };
+
+  const trimmed = (settings: AISettings): AISettings => ({
+    ...settings,
+    providers: Object.fromEntries(
+      Object.entries(settings.providers).map(([id, c]) => [
+        id,
+        { apiKey: c.apiKey.trim(), baseUrl: c.baseUrl.trim(), model: c.model.trim() },
+      ])
+    ) as AISettings['providers'],
+  });
+
   const handleSave = () => {
-    onSave(keyInput.trim());
+    onSave(trimmed(draft));
     onClose();
   };
 
   const handleClear = () => {
-    setKeyInput('');
-    onSave('');
+    onSave(trimmed({
+      ...currentSettings,
+      providers: { ...currentSettings.providers, [draft.provider]: { ...currentSettings.providers[draft.provider], apiKey: '' } },
+    }));
   };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
-      <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
         <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
           <div className="flex items-center gap-2 text-indigo-700">
             <Key className="w-5 h-5" />
-            <h3 className="font-bold">API Key Configuration</h3>
+            <h3 className="font-bold">AI Provider Settings</h3>
           </div>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
             <X className="w-5 h-5" />
           </button>
         </div>
-        
+
         <div className="p-6 space-y-4">
           <div className="bg-blue-50 text-blue-800 text-sm p-3 rounded-lg border border-blue-100">
-            <p>To use this app, you need your own Google Gemini API Key. Your key is stored locally in your browser and is never sent to our servers.</p>
+            <p>Choose which AI service audits your translations. Keys are stored locally in your browser and are only sent to the provider you select.</p>
           </div>
 
           <div className="space-y-2">
-            <label className="block text-sm font-medium text-gray-700">Google Gemini API Key</label>
+            <label className="block text-sm font-medium text-gray-700">Provider</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(PROVIDERS) as ProviderId[]).map(id => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, provider: id })}
+                  className={`px-3 py-2 rounded-lg border text-sm font-bold transition-colors ${
+                    draft.provider === id
+                      ? 'bg-indigo-50 border-indigo-300 text-indigo-700'
+                      : 'bg-white border-gray-200 text-gray-500 hover:border-gray-300'
+                  }`}
+                >
+                  {PROVIDERS[id].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Model</label>
+            <input
+              type="text"
+              list={`models-${provider.id}`}
+              value={config.model}
+              onChange={(e) => updateConfig({ model: e.target.value })}
+              placeholder={provider.defaultModel}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+            />
+            <datalist id={`models-${provider.id}`}>
+              {provider.suggestedModels.map(model => <option key={model} value={model} />)}
+            </datalist>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Base URL</label>
+            <input
+              type="text"
+              value={config.baseUrl}
+              onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+              placeholder={provider.defaultBaseUrl || 'Default endpoint'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+            />
+            {provider.id === 'openai' && (
+              <p className="text-xs text-gray-500">For a self-hosted server use e.g. http://localhost:11434/v1</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              API Key {!provider.requiresKey && <span className="text-gray-400 font-normal">(optional)</span>}
+            </label>
             <div className="relative">
               <input
                 type={isVisible ? "text" : "password"}
-                value={keyInput}
-                onChange={(e) => setKeyInput(e.target.value)}
-                placeholder="AIza..."
+                value={config.apiKey}
+                onChange={(e) => updateConfig({ apiKey: e.target.value })}
+                placeholder={provider.id === 'gemini' ? 'AIza...' : 'sk-...'}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none pr-10"
               />
               <button
@@ -64,34 +143,38 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSav
                 {isVisible ? 'HIDE' : 'SHOW'}
               </button>
             </div>
-            <a 
-              href="https://aistudio.google.com/app/apikey" 
-              target="_blank" 
-              rel="noopener noreferrer"
-              className="inline-flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800"
-            >
-              Get a free API key here <ExternalLink className="w-3 h-3" />
-            </a>
+            {provider.id === 'gemini' && (
+              <a
+                href="https://aistudio.google.com/app/apikey"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800"
+              >
+                Get a free API key here <ExternalLink className="w-3 h-3" />
+              </a>
+            )}
           </div>
 
+          <AnalysisCachePanel settings={cacheSettings} onChange={onCacheSettingsChange} />
+
           <div className="pt-4 flex gap-3">
-             {currentKey && (
+             {savedKey && (
                 <button
                   onClick={handleClear}
                   className="px-4 py-2 text-red-600 bg-red-50 hover:bg-red-100 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
                 >
-                  <Trash2 className="w-4 h-4" /> Remove
+                  <Trash2 className="w-4 h-4" /> Remove Key
                 </button>
              )}
             <button
               onClick={handleSave}
               className="flex-1 bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 shadow-sm transition-all flex items-center justify-center gap-2"
             >
-              <Save className="w-4 h-4" /> Save Key
+              <Save className="w-4 h-4" /> Save Settings
             </button>
           </div>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Languages, AlertTriangle } from 'lucide-react';
+import { Segment, AnalysisError, DriftLevel } from '../types';
+
+interface BackTranslationPanelProps {
+  segment: Segment;
+  onBackTranslate: (id: string) => Promise<AnalysisError | null>;
+}
+
+const DRIFT_STYLES: Record<DriftLevel, { row: string; badge: string }> = {
+  none: { row: '', badge: 'bg-emerald-50 text-emerald-700' },
+  minor: { row: 'bg-amber-50/60', badge: 'bg-amber-100 text-amber-800' },
+  major: { row: 'bg-rose-50/70', badge: 'bg-rose-100 text-rose-700' },
+};
+
+/** Sentence-by-sentence comparison of the source with a literal back-translation of the target. */
+export const BackTranslationPanel: React.FC<BackTranslationPanelProps> = ({ segment, onBackTranslate }) => {
+  const [error, setError] = useState<AnalysisError | null>(null);
+  const backTranslation = segment.backTranslation;
+  const isStale = !!backTranslation && backTranslation.targetText !== segment.targetText;
+
+  const run = async () => {
+    setError(null);
+    setError(await onBackTranslate(segment.id));
+  };
+
+  return (
+    <div className="flex-1 border border-slate-200 rounded-xl bg-white overflow-hidden shadow-inner flex flex-col min-h-[150px]">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-slate-100">
+        <span className="text-[10px] text-slate-400 font-bold uppercase tracking-tight">
+          {backTranslation ? `Into ${backTranslation.language}` : 'Literal back-translation'}
+        </span>
+        <button
+          onClick={run}
+          disabled={segment.isBackTranslating || !segment.sourceText || !segment.targetText}
+          className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50"
+        >
+          {segment.isBackTranslating
+            ? <div className="w-3 h-3 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin" />
+            : <Languages className="w-3 h-3" />}
+          {backTranslation ? 'Refresh' : 'Back-translate'}
+        </button>
+      </div>
+
+      {isStale && (
+        <div className="flex items-center gap-1.5 px-3 py-1.5 bg-amber-50 text-amber-800 text-[10px] font-bold">
+          <AlertTriangle className="w-3 h-3" /> The target changed after this back-translation.
+        </div>
+      )}
+      {error && <div className="px-3 py-1.5 bg-rose-50 text-rose-700 text-[10px] font-bold">{error.message}</div>}
+
+      <div className="overflow-y-auto max-h-[200px] custom-scrollbar h-full">
+        {backTranslation && backTranslation.sentences.length > 0 ? (
+          <table className="w-full text-left text-[11px] border-collapse">
+            <thead className="sticky top-0 bg-white border-b border-slate-200 shadow-sm z-10">
+              <tr>
+                <th className="px-3 py-2 font-bold text-slate-400 uppercase tracking-tight">SOURCE</th>
+                <th className="px-3 py-2 font-bold text-slate-400 uppercase tracking-tight">BACK-TRANSLATION</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {backTranslation.sentences.map((sentence, idx) => (
+                <tr key={idx} className={`align-top ${DRIFT_STYLES[sentence.drift].row}`}>
+                  <td className="px-3 py-2 text-slate-700 font-medium">{sentence.source}</td>
+                  <td className="px-3 py-2">
+                    <div className="text-slate-900 font-medium">
+                      {sentence.backTranslation || <span className="italic text-slate-400">Not rendered</span>}
+                    </div>
+                    {sentence.drift !== 'none' && (
+                      <div className="mt-1 flex items-start gap-1.5">
+                        <span className={`px-1.5 rounded text-[9px] font-black uppercase ${DRIFT_STYLES[sentence.drift].badge}`}>
+                          {sentence.drift} drift
+                        </span>
+                        <span className="text-slate-500 italic leading-snug">{sentence.note}</span>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : backTranslation ? (
+          <p className="p-3 text-[12px] text-slate-700 font-medium whitespace-pre-line">{backTranslation.text}</p>
+        ) : (
+          <div className="h-full flex flex-col items-center justify-center p-8 text-slate-300">
+            <div className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">Empty</div>
+            <p className="text-[9px] text-center mt-2 opacity-50 font-bold uppercase leading-relaxed">
+              Back-translate to read the target in the source language
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Layers, Pause, Play, Square, Settings2, X } from 'lucide-react';
+import { BatchProgress, BatchSettings } from '../types';
+
+interface BatchControlsProps {
+  progress: BatchProgress | null;
+  settings: BatchSettings;
+  eligibleCount: number;
+  selectedCount: number;
+  onStart: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+  onSettingsChange: (settings: BatchSettings) => void;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+export const BatchControls: React.FC<BatchControlsProps> = ({
+  progress,
+  settings,
+  eligibleCount,
+  selectedCount,
+  onStart,
+  onPause,
+  onResume,
+  onCancel,
+  onDismiss,
+  onSettingsChange,
+}) => {
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const isActive = !!progress && !progress.isFinished;
+  const done = progress ? progress.completed + progress.failed : 0;
+  const percent = progress && progress.total > 0 ? Math.round((done / progress.total) * 100) : 0;
+  const startCount = selectedCount > 0 ? selectedCount : eligibleCount;
+
+  const updateSetting = (key: keyof BatchSettings, value: string) => {
+    const parsed = parseInt(value, 10);
+    if (!Number.isNaN(parsed) && parsed > 0) {
+      onSettingsChange({ ...settings, [key]: parsed });
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-white border border-slate-200 rounded-xl shadow-sm p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          {!isActive && (
+            <button
+              onClick={onStart}
+              disabled={startCount === 0}
+              className="flex items-center gap-2 px-5 py-2.5 rounded-xl text-xs font-black text-white bg-indigo-600 hover:bg-indigo-700 active:scale-95 shadow-lg shadow-indigo-100 uppercase tracking-widest transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Layers className="w-4 h-4" />
+              {selectedCount > 0 ? `Check Selected (${selectedCount})` : `Check All (${eligibleCount})`}
+            </button>
+          )}
+          {isActive && (
+            <>
+              {progress!.isPaused ? (
+                <button
+                  onClick={onResume}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-black text-indigo-700 bg-indigo-50 border border-indigo-100 hover:bg-indigo-100 uppercase tracking-widest"
+                >
+                  <Play className="w-3.5 h-3.5" /> Resume
+                </button>
+              ) : (
+                <button
+                  onClick={onPause}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-black text-slate-700 bg-slate-50 border border-slate-200 hover:bg-slate-100 uppercase tracking-widest"
+                >
+                  <Pause className="w-3.5 h-3.5" /> Pause
+                </button>
+              )}
+              <button
+                onClick={onCancel}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-black text-rose-700 bg-rose-50 border border-rose-100 hover:bg-rose-100 uppercase tracking-widest"
+              >
+                <Square className="w-3.5 h-3.5" /> Cancel
+              </button>
+            </>
+          )}
+          {!isActive && (
+            <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+              {selectedCount > 0 ? 'Selected segments' : 'Pending & Needs Work'}
+            </span>
+          )}
+        </div>
+
+        <div className="relative">
+          <button
+            onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+            className="text-xs font-bold text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1.5"
+          >
+            <Settings2 className="w-3.5 h-3.5" />
+            {settings.concurrency} parallel · {settings.requestsPerMinute} RPM
+          </button>
+          {isSettingsOpen && (
+            <div className="absolute right-0 mt-2 w-60 bg-white border border-slate-200 rounded-xl shadow-lg z-20 p-4 space-y-3 animate-fadeIn">
+              <label className="block">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Concurrency</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={settings.concurrency}
+                  onChange={(e) => updateSetting('concurrency', e.target.value)}
+                  className="mt-1 w-full px-3 py-1.5 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500/20"
+                />
+              </label>
+              <label className="block">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Requests per minute</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={settings.requestsPerMinute}
+                  onChange={(e) => updateSetting('requestsPerMinute', e.target.value)}
+                  className="mt-1 w-full px-3 py-1.5 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500/20"
+                />
+              </label>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {progress && (
+        <div className="space-y-2 animate-fadeIn">
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-300 ${progress.isCancelled ? 'bg-slate-400' : 'bg-indigo-600'}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-3 text-[11px] font-bold text-slate-500">
+            <span>
+              {done} / {progress.total} checked
+              {progress.failed > 0 && <span className="text-rose-600"> · {progress.failed} failed</span>}
+              {progress.requeued > 0 && <span className="text-amber-600"> · {progress.requeued} re-queued after quota limits</span>}
+            </span>
+            <span className="flex items-center gap-3">
+              {isActive && progress.isPaused && <span className="text-amber-600 uppercase tracking-widest">Paused</span>}
+              {isActive && !progress.isPaused && progress.cooldownUntil && (
+                <span className="text-amber-600">Quota cooldown</span>
+              )}
+              {isActive && progress.etaMs !== null && <span>ETA {formatDuration(progress.etaMs)}</span>}
+              {progress.isFinished && (
+                <>
+                  <span className="uppercase tracking-widest">{progress.isCancelled ? 'Cancelled' : 'Complete'}</span>
+                  <button onClick={onDismiss} className="text-slate-400 hover:text-slate-600">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
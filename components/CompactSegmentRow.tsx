@@ -0,0 +1,136 @@
+import React from 'react';
+import { Sparkles, AlertCircle, ShieldCheck, Trash2, X } from 'lucide-react';
+import { Segment, SegmentStatus, SegmentCategory, QaFinding } from '../types';
+import { textAttributes } from '../services/languageService';
+import { subtitleTiming, formatTimestamp } from '../services/subtitleService';
+
+interface CompactSegmentRowProps {
+  segment: Segment;
+  index: number;
+  sourceLanguage: string;
+  targetLanguage: string;
+  onUpdate: (id: string, updates: Partial<Segment>) => void;
+  onDelete: (id: string) => void;
+  onRunAnalysis: (id: string) => void;
+  onCancelAnalysis: (id: string) => void;
+  isSelected: boolean;
+  onToggleSelect: (id: string) => void;
+  isActive: boolean;
+  onActivate: (id: string) => void;
+  qaFindings: QaFinding[];
+}
+
+const STATUS_STYLES: Record<SegmentStatus, string> = {
+  [SegmentStatus.Approved]: 'text-emerald-700',
+  [SegmentStatus.NeedsWork]: 'text-rose-700',
+  [SegmentStatus.Reviewed]: 'text-indigo-700',
+  [SegmentStatus.Pending]: 'text-slate-500',
+};
+
+/** One-line variant of SegmentRow for fast passes over large files. */
+export const CompactSegmentRow: React.FC<CompactSegmentRowProps> = ({
+  segment,
+  index,
+  sourceLanguage,
+  targetLanguage,
+  onUpdate,
+  onDelete,
+  onRunAnalysis,
+  onCancelAnalysis,
+  isSelected,
+  onToggleSelect,
+  isActive,
+  onActivate,
+  qaFindings,
+}) => {
+  const timing = subtitleTiming(segment);
+  const openIssues = (segment.issues || []).filter(issue => !issue.resolved).length;
+  const selectClass = 'bg-transparent text-xs font-bold outline-none cursor-pointer';
+
+  return (
+    <div
+      id={`segment-${segment.id}`}
+      onFocus={() => onActivate(segment.id)}
+      className={`grid grid-cols-[auto_2.5rem_1fr_1fr_7.5rem_7rem_4.5rem_auto] items-start gap-3 px-4 py-3 bg-white rounded-lg border text-sm ${
+        isActive ? 'border-indigo-400 ring-2 ring-indigo-200' : 'border-slate-200'
+      }`}
+    >
+      <input
+        type="checkbox"
+        checked={isSelected}
+        onChange={() => onToggleSelect(segment.id)}
+        className="mt-1 w-4 h-4 accent-indigo-600 cursor-pointer"
+      />
+      <span className="mt-0.5 text-[10px] font-black text-slate-300">{index + 1}</span>
+      <div className="min-w-0">
+        {timing && (
+          <p className="text-[10px] font-mono font-bold text-slate-400 mb-0.5" title="Cue timing">
+            {formatTimestamp(timing.start, timing.format)} → {formatTimestamp(timing.end, timing.format)}
+          </p>
+        )}
+        <p {...textAttributes(sourceLanguage)} className="text-slate-600 whitespace-pre-wrap break-words">
+          {segment.sourceText || <span className="text-slate-300 italic">Empty source</span>}
+        </p>
+      </div>
+      <textarea
+        name="targetText"
+        value={segment.targetText}
+        onChange={(e) => onUpdate(segment.id, { targetText: e.target.value })}
+        placeholder={`${targetLanguage} translation`}
+        {...textAttributes(targetLanguage)}
+        rows={Math.min(4, Math.max(1, Math.ceil(segment.targetText.length / 60)))}
+        className="w-full resize-none bg-slate-50/50 rounded-md px-2 py-1 text-slate-900 font-medium outline-none focus:bg-white focus:ring-1 focus:ring-indigo-300"
+      />
+      <select
+        value={segment.status}
+        onChange={(e) => onUpdate(segment.id, { status: e.target.value as SegmentStatus })}
+        className={`${selectClass} ${STATUS_STYLES[segment.status]}`}
+      >
+        {Object.values(SegmentStatus).map(status => <option key={status} value={status}>{status}</option>)}
+      </select>
+      <select
+        value={segment.category}
+        onChange={(e) => onUpdate(segment.id, { category: e.target.value as SegmentCategory })}
+        className={`${selectClass} text-slate-600`}
+      >
+        {Object.values(SegmentCategory).map(category => <option key={category} value={category}>{category}</option>)}
+      </select>
+      <div className="flex items-center gap-2 text-[10px] font-black">
+        {openIssues > 0 && (
+          <span className="flex items-center gap-0.5 text-rose-600" title="Open AI issues">
+            <AlertCircle className="w-3.5 h-3.5" />{openIssues}
+          </span>
+        )}
+        {qaFindings.length > 0 && (
+          <span className="flex items-center gap-0.5 text-amber-600" title={qaFindings.map(f => f.message).join('\n')}>
+            <ShieldCheck className="w-3.5 h-3.5" />{qaFindings.length}
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-1">
+        {segment.isAnalyzing ? (
+          <button
+            onClick={() => onCancelAnalysis(segment.id)}
+            title="Cancel check"
+            className="group p-1.5 rounded-md text-indigo-600 hover:bg-rose-50 hover:text-rose-600"
+          >
+            <div className="w-3.5 h-3.5 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin group-hover:hidden" />
+            <X className="w-3.5 h-3.5 hidden group-hover:block" />
+          </button>
+        ) : (
+          <button
+            onClick={() => onRunAnalysis(segment.id)}
+            disabled={!segment.sourceText || !segment.targetText}
+            title="Check translation"
+            className="p-1.5 rounded-md text-indigo-600 hover:bg-indigo-50 disabled:opacity-40"
+          >
+            <Sparkles className="w-3.5 h-3.5" />
+          </button>
+        )}
+        <button onClick={() => onDelete(segment.id)} className="p-1.5 rounded-md text-slate-300 hover:text-rose-600">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React from 'react';
+import { BarChart3, Download, AlertTriangle } from 'lucide-react';
+import { QualityReport, IssueSeverity } from '../types';
+import { SEVERITY_STYLES } from './IssueChecklist';
+import { SEVERITY_WEIGHTS } from '../services/reportService';
+import { textAttributes } from '../services/languageService';
+
+interface DashboardProps {
+  report: QualityReport;
+  onExport: (format: 'html' | 'csv') => void;
+  onSelectSegment: (id: string) => void;
+}
+
+const StatCard: React.FC<{ label: string; value: string | number; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-5">
+    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</p>
+    <p className="text-3xl font-black text-slate-900 mt-2">{value}</p>
+    {hint && <p className="text-[11px] text-slate-400 mt-1">{hint}</p>}
+  </div>
+);
+
+const CountBars: React.FC<{ title: string; counts: Record<string, number>; total: number }> = ({ title, counts, total }) => (
+  <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+    <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">{title}</h3>
+    <ul className="space-y-3">
+      {Object.entries(counts).map(([label, count]) => (
+        <li key={label}>
+          <div className="flex justify-between text-xs font-bold text-slate-600 mb-1">
+            <span>{label}</span>
+            <span>{count}</span>
+          </div>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${total > 0 ? (count / total) * 100 : 0}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export const Dashboard: React.FC<DashboardProps> = ({ report, onExport, onSelectSegment }) => (
+  <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 pb-32 space-y-6">
+    <div className="flex justify-between items-center">
+      <h2 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+        <BarChart3 className="w-4 h-4" />
+        Quality Dashboard · {report.sourceLanguage} → {report.targetLanguage}
+      </h2>
+      <div className="flex items-center gap-5">
+        <button
+          onClick={() => onExport('html')}
+          disabled={report.totalSegments === 0}
+          className="text-xs font-bold text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+        >
+          <Download className="w-3 h-3" /> HTML Report
+        </button>
+        <button
+          onClick={() => onExport('csv')}
+          disabled={report.totalSegments === 0}
+          className="text-xs font-bold text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+        >
+          <Download className="w-3 h-3" /> CSV
+        </button>
+      </div>
+    </div>
+
+    <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+      <StatCard label="Segments" value={report.totalSegments} />
+      <StatCard label="Source words" value={report.sourceWords} />
+      <StatCard label="Penalty points" value={report.penaltyPoints} hint="Open issues only" />
+      <StatCard label="Error density" value={report.errorDensity.toFixed(1)} hint="Points per 1,000 source words" />
+      <StatCard label="Quality score" value={report.qualityScore.toFixed(1)} hint="100 = no open issues" />
+    </div>
+
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      <CountBars title="By status" counts={report.statusCounts} total={report.totalSegments} />
+      <CountBars title="By category" counts={report.categoryCounts} total={report.totalSegments} />
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">Open issues by severity</h3>
+        <ul className="space-y-3">
+          {(Object.keys(report.severityCounts) as IssueSeverity[]).map(severity => (
+            <li key={severity} className="flex items-center justify-between">
+              <span className={`px-2 py-0.5 rounded-md border text-[10px] font-black uppercase tracking-widest ${SEVERITY_STYLES[severity].badge}`}>
+                {severity}
+              </span>
+              <span className="text-xs text-slate-400">× {SEVERITY_WEIGHTS[severity]} pts</span>
+              <span className="text-sm font-black text-slate-700">{report.severityCounts[severity]}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <h3 className="px-6 pt-6 pb-4 text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+        <AlertTriangle className="w-3.5 h-3.5" /> Worst segments
+      </h3>
+      {report.worstSegments.length > 0 ? (
+        <table className="w-full text-left text-sm border-collapse">
+          <thead className="border-y border-slate-100 bg-slate-50/50">
+            <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-2 w-20">Penalty</th>
+              <th className="px-6 py-2">Source</th>
+              <th className="px-6 py-2">Target</th>
+              <th className="px-6 py-2 w-28">Category</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {report.worstSegments.map(({ segment, penalty, openIssues }) => (
+              <tr
+                key={segment.id}
+                onClick={() => onSelectSegment(segment.id)}
+                className="cursor-pointer hover:bg-indigo-50/50"
+              >
+                <td className="px-6 py-3">
+                  <span className="font-black text-rose-600">{penalty}</span>
+                  <span className="block text-[10px] text-slate-400">{openIssues} issue{openIssues === 1 ? '' : 's'}</span>
+                </td>
+                <td {...textAttributes(report.sourceLanguage)} className="px-6 py-3 text-slate-600">{segment.sourceText}</td>
+                <td {...textAttributes(report.targetLanguage)} className="px-6 py-3 text-slate-900 font-medium">{segment.targetText}</td>
+                <td className="px-6 py-3 text-xs font-bold text-slate-500">{segment.category}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="px-6 pb-6 text-sm text-slate-400">No open issues. Run checks on the working set to populate this list.</p>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,21 @@
+import React from 'react';
+import { DiffToken } from '../types';
+
+interface DiffTextProps {
+  tokens: DiffToken[];
+  className?: string;
+}
+
+export const DiffText: React.FC<DiffTextProps> = ({ tokens, className = '' }) => (
+  <span className={`whitespace-pre-wrap ${className}`}>
+    {tokens.map((token, idx) => {
+      if (token.type === 'insert') {
+        return <ins key={idx} className="bg-emerald-100 text-emerald-800 no-underline rounded-sm">{token.text}</ins>;
+      }
+      if (token.type === 'delete') {
+        return <del key={idx} className="bg-rose-100 text-rose-700 rounded-sm">{token.text}</del>;
+      }
+      return <span key={idx}>{token.text}</span>;
+    })}
+  </span>
+);
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { Replace, X, AlertCircle } from 'lucide-react';
+import { Segment, ReplaceOptions, ReplacementPreview } from '../types';
+import { previewReplacements } from '../services/searchService';
+import { diffWords } from '../services/diffService';
+import { DiffText } from './DiffText';
+
+interface FindReplaceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  segments: Segment[];
+  onApply: (changes: Array<{ id: string; targetText: string }>) => void;
+}
+
+const INITIAL_OPTIONS: ReplaceOptions = { find: '', replace: '', caseSensitive: false, wholeWord: false, regex: false };
+
+export const FindReplaceModal: React.FC<FindReplaceModalProps> = ({ isOpen, onClose, segments, onApply }) => {
+  const [options, setOptions] = useState<ReplaceOptions>(INITIAL_OPTIONS);
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
+
+  const { previews, error } = useMemo((): { previews: ReplacementPreview[]; error: string | null } => {
+    if (!isOpen) return { previews: [], error: null };
+    try {
+      return { previews: previewReplacements(segments, options), error: null };
+    } catch (e: any) {
+      return { previews: [], error: e.message || 'Invalid search pattern.' };
+    }
+  }, [isOpen, segments, options]);
+
+  if (!isOpen) return null;
+
+  const update = (updates: Partial<ReplaceOptions>) => {
+    setOptions({ ...options, ...updates });
+    setExcludedIds([]);
+  };
+
+  const included = previews.filter(preview => !excludedIds.includes(preview.segment.id));
+  const matchCount = included.reduce((sum, preview) => sum + preview.count, 0);
+
+  const handleApply = () => {
+    onApply(included.map(preview => ({ id: preview.segment.id, targetText: preview.after })));
+    setOptions({ ...options, find: '' });
+    onClose();
+  };
+
+  const toggleExcluded = (id: string) =>
+    setExcludedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none text-sm';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div className="flex items-center gap-2 text-indigo-700">
+            <Replace className="w-5 h-5" />
+            <h3 className="font-bold">Find & Replace in Targets</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 border-b border-gray-100">
+          <div className="grid grid-cols-2 gap-3">
+            <input value={options.find} onChange={(e) => update({ find: e.target.value })} placeholder="Find" className={inputClass} autoFocus />
+            <input
+              value={options.replace}
+              onChange={(e) => update({ replace: e.target.value })}
+              placeholder={options.regex ? 'Replace ($1 for groups)' : 'Replace with'}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-wrap gap-4 text-xs font-bold text-slate-600">
+            {([['caseSensitive', 'Match case'], ['wholeWord', 'Whole word'], ['regex', 'Regular expression']] as const).map(([key, label]) => (
+              <label key={key} className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={options[key]} onChange={(e) => update({ [key]: e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+                {label}
+              </label>
+            ))}
+          </div>
+          {error && (
+            <div className="bg-rose-50 text-rose-800 text-xs p-2.5 rounded-lg border border-rose-100 flex gap-2">
+              <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+            </div>
+          )}
+        </div>
+
+        <div className="overflow-y-auto custom-scrollbar flex-1">
+          {previews.length > 0 ? (
+            <ul className="divide-y divide-slate-50">
+              {previews.map(preview => (
+                <li key={preview.segment.id} className="px-6 py-3 flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={!excludedIds.includes(preview.segment.id)}
+                    onChange={() => toggleExcluded(preview.segment.id)}
+                    className="mt-1 w-4 h-4 accent-indigo-600 cursor-pointer"
+                  />
+                  <div className="flex-1 min-w-0 text-sm">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">
+                      Segment {preview.segment.id} · {preview.count} match{preview.count === 1 ? '' : 'es'}
+                    </p>
+                    <DiffText tokens={diffWords(preview.segment.targetText, preview.after)} className="text-slate-700" />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="py-12 text-center text-slate-400 text-sm">
+              {options.find && !error ? 'No targets match.' : 'Type a search term to preview replacements.'}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex items-center justify-between bg-gray-50">
+          <p className="text-xs text-slate-500">
+            {included.length > 0
+              ? `${matchCount} replacement${matchCount === 1 ? '' : 's'} in ${included.length} segment${included.length === 1 ? '' : 's'}; they will be set back to Pending.`
+              : ''}
+          </p>
+          <button
+            onClick={handleApply}
+            disabled={included.length === 0}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 shadow-sm transition-all disabled:opacity-50"
+          >
+            Replace All
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
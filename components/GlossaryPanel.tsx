@@ -0,0 +1,176 @@
+import React, { useRef, useState } from 'react';
+import { BookMarked, X, Plus, Trash2, FileUp, Download, Search } from 'lucide-react';
+import { GlossaryEntry } from '../types';
+import { generateEntryId } from '../services/glossaryService';
+
+interface GlossaryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sourceLanguage: string;
+  targetLanguage: string;
+  entries: GlossaryEntry[];
+  onChange: (entries: GlossaryEntry[]) => void;
+  onImportFile: (file: File) => void;
+  onExport: (format: 'csv' | 'tbx') => void;
+}
+
+const joinTerms = (terms: string[]) => terms.join(' | ');
+const splitTerms = (value: string) => value.split('|').map(t => t.trim()).filter(Boolean);
+
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({
+  isOpen,
+  onClose,
+  sourceLanguage,
+  targetLanguage,
+  entries,
+  onChange,
+  onImportFile,
+  onExport,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [filter, setFilter] = useState('');
+
+  if (!isOpen) return null;
+
+  const updateEntry = (id: string, updates: Partial<GlossaryEntry>) => {
+    onChange(entries.map(entry => entry.id === id ? { ...entry, ...updates } : entry));
+  };
+
+  const addEntry = () => {
+    onChange([{ id: generateEntryId(), source: '', approved: [], forbidden: [] }, ...entries]);
+    setFilter('');
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportFile(file);
+    e.target.value = '';
+  };
+
+  const needle = filter.trim().toLowerCase();
+  const visible = needle
+    ? entries.filter(entry =>
+        [entry.source, ...entry.approved, ...entry.forbidden].some(term => term.toLowerCase().includes(needle)))
+    : entries;
+
+  const inputClass = 'w-full px-2 py-1.5 border border-transparent hover:border-slate-200 focus:border-indigo-300 rounded-md text-sm outline-none bg-transparent';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div className="flex items-center gap-2 text-indigo-700">
+            <BookMarked className="w-5 h-5" />
+            <h3 className="font-bold">Glossary · {sourceLanguage} → {targetLanguage}</h3>
+            <span className="text-xs text-slate-400 font-bold">({entries.length} terms)</span>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-100 flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2 flex-1 min-w-[200px] px-3 py-2 border border-slate-200 rounded-lg">
+            <Search className="w-4 h-4 text-slate-400" />
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter terms..."
+              className="flex-1 text-sm outline-none"
+            />
+          </div>
+          <input ref={fileInputRef} type="file" accept=".csv,.tbx,.xml" className="hidden" onChange={handleFileChange} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 text-xs font-bold text-slate-600 bg-slate-50 border border-slate-200 rounded-lg hover:bg-slate-100 flex items-center gap-1.5"
+          >
+            <FileUp className="w-3.5 h-3.5" /> Import CSV / TBX
+          </button>
+          <button
+            onClick={() => onExport('csv')}
+            disabled={entries.length === 0}
+            className="px-3 py-2 text-xs font-bold text-slate-600 bg-slate-50 border border-slate-200 rounded-lg hover:bg-slate-100 flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <Download className="w-3.5 h-3.5" /> CSV
+          </button>
+          <button
+            onClick={() => onExport('tbx')}
+            disabled={entries.length === 0}
+            className="px-3 py-2 text-xs font-bold text-slate-600 bg-slate-50 border border-slate-200 rounded-lg hover:bg-slate-100 flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <Download className="w-3.5 h-3.5" /> TBX
+          </button>
+          <button
+            onClick={addEntry}
+            className="px-3 py-2 text-xs font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 flex items-center gap-1.5"
+          >
+            <Plus className="w-3.5 h-3.5" /> Add Term
+          </button>
+        </div>
+
+        <div className="overflow-y-auto custom-scrollbar flex-1">
+          {visible.length > 0 ? (
+            <table className="w-full text-left text-sm border-collapse">
+              <thead className="sticky top-0 bg-white border-b border-slate-200 z-10">
+                <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  <th className="px-3 py-2 w-1/4">Source term</th>
+                  <th className="px-3 py-2 w-1/4">Approved (use | to separate)</th>
+                  <th className="px-3 py-2 w-1/4">Forbidden variants</th>
+                  <th className="px-3 py-2">Note</th>
+                  <th className="px-3 py-2 w-10"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {visible.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="px-1 py-1">
+                      <input
+                        className={`${inputClass} font-bold text-slate-900`}
+                        value={entry.source}
+                        placeholder="e.g. dashboard"
+                        onChange={(e) => updateEntry(entry.id, { source: e.target.value })}
+                      />
+                    </td>
+                    <td className="px-1 py-1">
+                      <input
+                        className={`${inputClass} text-emerald-700`}
+                        defaultValue={joinTerms(entry.approved)}
+                        onBlur={(e) => updateEntry(entry.id, { approved: splitTerms(e.target.value) })}
+                      />
+                    </td>
+                    <td className="px-1 py-1">
+                      <input
+                        className={`${inputClass} text-rose-700`}
+                        defaultValue={joinTerms(entry.forbidden)}
+                        onBlur={(e) => updateEntry(entry.id, { forbidden: splitTerms(e.target.value) })}
+                      />
+                    </td>
+                    <td className="px-1 py-1">
+                      <input
+                        className={`${inputClass} text-slate-500`}
+                        value={entry.note || ''}
+                        onChange={(e) => updateEntry(entry.id, { note: e.target.value || undefined })}
+                      />
+                    </td>
+                    <td className="px-1 py-1">
+                      <button
+                        onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                        className="p-1.5 text-slate-300 hover:text-rose-600 rounded-md"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="py-16 text-center text-slate-400 text-sm">
+              {entries.length === 0 ? `No terms for ${sourceLanguage} → ${targetLanguage} yet. Add one or import a CSV/TBX file.` : 'No terms match the filter.'}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
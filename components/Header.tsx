@@ -1,19 +1,47 @@
 import React from 'react';
-import { Languages, ShieldCheck, Key, AlertCircle } from 'lucide-react';
-import { TARGET_LANGUAGES } from '../constants';
+import { Languages, ShieldCheck, Key, AlertCircle, BookMarked, Database, ArrowRight, BarChart3, ListChecks, SlidersHorizontal, Globe, FolderOpen } from 'lucide-react';
+import { AppView, Locale } from '../types';
 
 interface HeaderProps {
-  selectedLanguage: string;
-  onLanguageChange: (lang: string) => void;
+  projectName: string;
+  onOpenProjects: () => void;
+  locales: Locale[];
+  onOpenLocales: () => void;
+  sourceLanguage: string;
+  onSourceLanguageChange: (lang: string) => void;
+  targetLanguage: string;
+  onTargetLanguageChange: (lang: string) => void;
   onOpenApiKeyModal: () => void;
   hasKey: boolean;
+  providerLabel: string;
+  onOpenGlossary: () => void;
+  glossaryCount: number;
+  onOpenMemory: () => void;
+  memoryCount: number;
+  onOpenProjectSettings: () => void;
+  view: AppView;
+  onViewChange: (view: AppView) => void;
 }
 
 export const Header: React.FC<HeaderProps> = ({ 
-  selectedLanguage, 
-  onLanguageChange, 
+  projectName,
+  onOpenProjects,
+  locales,
+  onOpenLocales,
+  sourceLanguage,
+  onSourceLanguageChange,
+  targetLanguage, 
+  onTargetLanguageChange, 
   onOpenApiKeyModal,
-  hasKey 
+  hasKey,
+  providerLabel,
+  onOpenGlossary,
+  glossaryCount,
+  onOpenMemory,
+  memoryCount,
+  onOpenProjectSettings,
+  view,
+  onViewChange
 }) => {
   return (
     <header className="sticky top-0 z-50 bg-white border-b border-slate-200 shadow-sm">
@@ -26,11 +54,64 @@ export const Header: React.FC<HeaderProps> = ({
             <h1 className="text-xl font-black text-slate-900 tracking-tight leading-none">SGC</h1>
             <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Proofreader</p>
           </div>
+          <button
+            onClick={onOpenProjects}
+            title="Switch or manage projects"
+            className="flex items-center gap-2 ml-2 px-3 py-2 rounded-xl border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 transition-all shadow-sm max-w-[220px]"
+          >
+            <FolderOpen className="w-4 h-4 shrink-0" />
+            <span className="text-xs font-black tracking-tight truncate">{projectName || 'Projects'}</span>
+          </button>
         </div>
 
         <div className="flex items-center gap-2 sm:gap-4">
+          <div className="flex items-center bg-slate-50 p-1 rounded-xl border border-slate-200">
+            {([['segments', 'Review', ListChecks], ['dashboard', 'Dashboard', BarChart3]] as const).map(([id, label, Icon]) => (
+              <button
+                key={id}
+                onClick={() => onViewChange(id)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-black uppercase tracking-tight transition-all ${
+                  view === id ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={onOpenGlossary}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 transition-all shadow-sm"
+          >
+            <BookMarked className="w-4 h-4" />
+            <span className="text-xs font-black uppercase tracking-tight">
+              Glossary{glossaryCount > 0 ? ` (${glossaryCount})` : ''}
+            </span>
+          </button>
+
+          <button
+            onClick={onOpenMemory}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 transition-all shadow-sm"
+          >
+            <Database className="w-4 h-4" />
+            <span className="text-xs font-black uppercase tracking-tight">
+              Memory{memoryCount > 0 ? ` (${memoryCount})` : ''}
+            </span>
+          </button>
+
+          <button
+            onClick={onOpenProjectSettings}
+            title="Style guide and prompt templates"
+            className="flex items-center gap-2 px-3 py-2 rounded-xl border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 transition-all shadow-sm"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            <span className="text-xs font-black uppercase tracking-tight">Project</span>
+          </button>
+
           <button
             onClick={onOpenApiKeyModal}
+            title={`AI provider: ${providerLabel}`}
             className={`flex items-center gap-2 px-3 py-2 rounded-xl border transition-all shadow-sm ${
               hasKey 
                 ? 'bg-emerald-50 border-emerald-200 text-emerald-700 hover:bg-emerald-100' 
@@ -39,23 +120,44 @@ export const Header: React.FC<HeaderProps> = ({
           >
             {hasKey ? <Key className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
             <span className="text-xs font-black uppercase tracking-tight">
-              API Key
+              AI Settings
             </span>
           </button>
 
           <div className="flex items-center gap-2 bg-slate-50 px-3 py-2 rounded-xl border border-slate-200">
             <Languages className="w-4 h-4 text-slate-400 hidden xs:block" />
             <select
-              value={selectedLanguage}
-              onChange={(e) => onLanguageChange(e.target.value)}
+              value={sourceLanguage}
+              onChange={(e) => onSourceLanguageChange(e.target.value)}
+              title="Source language"
               className="bg-transparent border-none text-xs font-black text-slate-700 focus:ring-0 cursor-pointer outline-none uppercase tracking-tight"
             >
-              {TARGET_LANGUAGES.map((lang) => (
-                <option key={lang} value={lang}>
-                  {lang}
+              {locales.map(({ name }) => (
+                <option key={name} value={name}>
+                  {name}
                 </option>
               ))}
             </select>
+            <ArrowRight className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+            <select
+              value={targetLanguage}
+              onChange={(e) => onTargetLanguageChange(e.target.value)}
+              title="Target language"
+              className="bg-transparent border-none text-xs font-black text-slate-700 focus:ring-0 cursor-pointer outline-none uppercase tracking-tight"
+            >
+              {locales.map(({ name }) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={onOpenLocales}
+              title="Manage languages"
+              className="text-slate-400 hover:text-indigo-600 transition-colors"
+            >
+              <Globe className="w-4 h-4" />
+            </button>
           </div>
         </div>
       </div>
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef } from 'react';
+
+export interface TextHighlight {
+  start: number;
+  end: number;
+  className: string;
+}
+
+/** A stretch of text that reports when the pointer is over it, whether or not it is highlighted. */
+export interface HoverTarget {
+  id: number;
+  start: number;
+  end: number;
+}
+
+interface HighlightedTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  highlights: TextHighlight[];
+  placeholder?: string;
+  dir?: 'ltr' | 'rtl';
+  lang?: string;
+  fontFamily?: string;
+  className?: string;
+  name?: string;
+  hoverTargets?: HoverTarget[];
+  onHoverTarget?: (id: number | null) => void;
+  /** Spans that can only be removed whole, never edited inside. */
+  protectedSpans?: Array<{ start: number; end: number }>;
+}
+
+// The textarea and its backdrop must share every metric that affects wrapping.
+const TEXT_METRICS = 'text-[15px] leading-relaxed font-medium whitespace-pre-wrap break-words';
+
+/** A range over characters [start, end) of the backdrop, whose text nodes spell out the value in order. */
+const backdropRange = (root: HTMLElement, start: number, end: number): Range | null => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  let offset = 0;
+  let started = false;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent!.length;
+    if (!started && start < offset + length) {
+      range.setStart(node, start - offset);
+      started = true;
+    }
+    if (started && end <= offset + length) {
+      range.setEnd(node, end - offset);
+      return range;
+    }
+    offset += length;
+  }
+  return null;
+};
+
+/**
+ * A textarea that paints highlights behind its text. The text stays editable; a mirrored
+ * backdrop with transparent text and coloured <mark>s sits underneath and follows its scroll.
+ */
+export const HighlightedTextarea: React.FC<HighlightedTextareaProps> = ({
+  value,
+  onChange,
+  highlights,
+  placeholder,
+  dir,
+  lang,
+  fontFamily,
+  className = '',
+  name,
+  hoverTargets = [],
+  onHoverTarget,
+  protectedSpans = [],
+}) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const protectedRef = useRef(protectedSpans);
+  protectedRef.current = protectedSpans;
+
+  // Typing into a protected span is refused. Deleting into one selects it whole, so the next key press removes it as a unit.
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const guard = (event: InputEvent) => {
+      let from = textarea.selectionStart;
+      let to = textarea.selectionEnd;
+      if (from === to && event.inputType === 'deleteContentBackward') from--;
+      if (from === to && event.inputType === 'deleteContentForward') to++;
+      // Overlapping a span without covering all of it; a caret strictly inside one counts too.
+      const cut = protectedRef.current.filter(span =>
+        from < span.end && to > span.start && (from > span.start || to < span.end));
+      if (cut.length === 0) return;
+      event.preventDefault();
+      if (event.inputType.startsWith('delete')) {
+        textarea.setSelectionRange(
+          Math.min(from, ...cut.map(span => span.start)),
+          Math.max(to, ...cut.map(span => span.end))
+        );
+      }
+    };
+    textarea.addEventListener('beforeinput', guard);
+    return () => textarea.removeEventListener('beforeinput', guard);
+  }, []);
+  const hoveredRef = useRef<number | null>(null);
+
+  // The textarea sits on top and takes the pointer, so hover is worked out from the backdrop's layout.
+  const reportHover = (x: number, y: number) => {
+    const backdrop = backdropRef.current;
+    if (!onHoverTarget || !backdrop) return;
+    const target = hoverTargets.find(({ start, end }) => {
+      const range = backdropRange(backdrop, start, end);
+      return !!range && Array.from(range.getClientRects()).some(rect =>
+        x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom);
+    });
+    const id = target ? target.id : null;
+    if (id !== hoveredRef.current) {
+      hoveredRef.current = id;
+      onHoverTarget(id);
+    }
+  };
+
+  const ordered = highlights
+    .filter(h => h.end > h.start && h.start >= 0 && h.end <= value.length)
+    .sort((a, b) => a.start - b.start);
+
+  const pieces: React.ReactNode[] = [];
+  let cursor = 0;
+  ordered.forEach((highlight, idx) => {
+    // Overlapping highlights are clipped so each character is painted once.
+    const start = Math.max(highlight.start, cursor);
+    if (start >= highlight.end) return;
+    if (start > cursor) pieces.push(value.substring(cursor, start));
+    pieces.push(
+      <mark key={idx} className={`rounded-sm text-transparent ${highlight.className}`}>
+        {value.substring(start, highlight.end)}
+      </mark>
+    );
+    cursor = highlight.end;
+  });
+  pieces.push(value.substring(cursor));
+
+  return (
+    <div className={`relative flex-1 w-full ${className}`} lang={lang} style={{ fontFamily }}>
+      <div
+        ref={backdropRef}
+        aria-hidden
+        dir={dir}
+        className={`absolute inset-0 overflow-hidden pointer-events-none text-transparent ${TEXT_METRICS}`}
+      >
+        {pieces}
+        {/* Keeps a trailing newline from collapsing so heights match */}
+        {'\n'}
+      </div>
+      <textarea
+        ref={textareaRef}
+        className={`relative w-full h-full text-slate-800 bg-transparent border-none focus:ring-0 outline-none resize-none placeholder-slate-300 ${TEXT_METRICS}`}
+        placeholder={placeholder}
+        name={name}
+        value={value}
+        dir={dir}
+        onChange={(e) => onChange(e.target.value)}
+        onMouseMove={(e) => reportHover(e.clientX, e.clientY)}
+        onMouseLeave={() => reportHover(-1, -1)}
+        onScroll={(e) => {
+          if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+      />
+    </div>
+  );
+};
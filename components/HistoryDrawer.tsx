@@ -0,0 +1,77 @@
+import React from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { SegmentRevision, RevisionOrigin } from '../types';
+import { diffWords } from '../services/diffService';
+import { DiffText } from './DiffText';
+
+interface HistoryDrawerProps {
+  history: SegmentRevision[];
+  onRestore: (revision: SegmentRevision) => void;
+  onClose: () => void;
+}
+
+const ORIGIN_LABELS: Record<RevisionOrigin, string> = {
+  initial: 'Initial version',
+  edit: 'Edited',
+  analysis: 'AI check',
+  suggestion: 'AI suggestion accepted',
+  restore: 'Restored',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ history, onRestore, onClose }) => {
+  const newestFirst = history.map((revision, idx) => ({ revision, previous: history[idx - 1] })).reverse();
+
+  return (
+    <div className="px-8 py-5 border-t border-slate-100 bg-white animate-fadeIn">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] flex items-center gap-2">
+          <History className="w-3.5 h-3.5" />
+          Revision History ({history.length})
+        </h4>
+        <button onClick={onClose} className="text-slate-300 hover:text-slate-600">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <ol className="space-y-2 max-h-80 overflow-y-auto custom-scrollbar">
+        {newestFirst.map(({ revision, previous }, idx) => {
+          const isCurrent = idx === 0;
+          const meta = [
+            !previous || previous.status !== revision.status ? revision.status : null,
+            !previous || previous.category !== revision.category ? `Category: ${revision.category}` : null,
+          ].filter(Boolean);
+          return (
+            <li key={`${revision.timestamp}-${idx}`} className="flex items-start gap-3 p-3 rounded-xl border border-slate-100">
+              <div className="w-36 shrink-0">
+                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{ORIGIN_LABELS[revision.origin]}</p>
+                <p className="text-[11px] text-slate-400">{formatTime(revision.timestamp)}</p>
+              </div>
+              <div className="flex-1 min-w-0 space-y-1 text-sm text-slate-700">
+                {previous && previous.targetText !== revision.targetText ? (
+                  <DiffText tokens={diffWords(previous.targetText, revision.targetText)} />
+                ) : (
+                  <span className={previous ? 'text-slate-400 italic' : ''}>
+                    {previous ? 'Target unchanged' : revision.targetText || '(empty)'}
+                  </span>
+                )}
+                {meta.length > 0 && <p className="text-[11px] font-bold text-slate-400">{meta.join(' · ')}</p>}
+              </div>
+              {isCurrent ? (
+                <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest shrink-0">Current</span>
+              ) : (
+                <button
+                  onClick={() => onRestore(revision)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest text-indigo-700 bg-indigo-50 hover:bg-indigo-100 shrink-0"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" /> Restore
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
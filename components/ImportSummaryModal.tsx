@@ -0,0 +1,114 @@
+import React from 'react';
+import { FileUp, X, CheckCircle, AlertCircle } from 'lucide-react';
+import { ImportSummary } from '../types';
+
+interface ImportSummaryModalProps {
+  summary: ImportSummary | null;
+  onClose: () => void;
+}
+
+export const ImportSummaryModal: React.FC<ImportSummaryModalProps> = ({ summary, onClose }) => {
+  if (!summary) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg overflow-hidden">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div className="flex items-center gap-2 text-indigo-700">
+            <FileUp className="w-5 h-5" />
+            <h3 className="font-bold">Import Summary</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="text-xs text-slate-500 font-medium break-all">
+            <span className="font-black uppercase tracking-widest text-slate-400">{summary.format}</span> · {summary.fileName}
+          </div>
+
+          {summary.error ? (
+            <div className="bg-rose-50 text-rose-800 text-sm p-3 rounded-lg border border-rose-100 flex gap-2">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              <p>{summary.error}</p>
+            </div>
+          ) : (
+            <div className="bg-emerald-50 text-emerald-800 text-sm p-3 rounded-lg border border-emerald-100 flex gap-2">
+              <CheckCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              <p>
+                Imported <strong>{summary.imported}</strong> segment{summary.imported === 1 ? '' : 's'}
+                {summary.skipped.length > 0 && <>, skipped <strong>{summary.skipped.length}</strong></>}.
+              </p>
+            </div>
+          )}
+
+          {summary.details.length > 0 && (
+            <ul className="text-sm text-slate-600 space-y-1 list-disc pl-5">
+              {summary.details.map((detail, idx) => (
+                <li key={idx}>{detail}</li>
+              ))}
+            </ul>
+          )}
+
+          {summary.skipped.length > 0 && (
+            <div className="border border-slate-200 rounded-lg overflow-hidden">
+              <div className="overflow-y-auto max-h-[200px] custom-scrollbar">
+                <table className="w-full text-left text-[11px] border-collapse">
+                  <thead className="sticky top-0 bg-white border-b border-slate-200">
+                    <tr>
+                      <th className="px-3 py-2 font-bold text-slate-400 uppercase tracking-tight">Skipped ID</th>
+                      <th className="px-3 py-2 font-bold text-slate-400 uppercase tracking-tight">Reason</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {summary.skipped.map((item, idx) => (
+                      <tr key={idx}>
+                        <td className="px-3 py-2 font-bold text-slate-900 break-all">{item.id}</td>
+                        <td className="px-3 py-2 text-slate-600">{item.reason}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {summary.conflicts && summary.conflicts.length > 0 && (
+            <div className="border border-amber-200 rounded-lg overflow-hidden">
+              <div className="overflow-y-auto max-h-[200px] custom-scrollbar">
+                <table className="w-full text-left text-[11px] border-collapse">
+                  <thead className="sticky top-0 bg-amber-50 border-b border-amber-200">
+                    <tr>
+                      <th className="px-3 py-2 font-bold text-amber-700 uppercase tracking-tight">Conflict ID</th>
+                      <th className="px-3 py-2 font-bold text-amber-700 uppercase tracking-tight">Differs in</th>
+                      <th className="px-3 py-2 font-bold text-amber-700 uppercase tracking-tight">Kept</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {summary.conflicts.map(conflict => (
+                      <tr key={conflict.id}>
+                        <td className="px-3 py-2 font-bold text-slate-900 break-all">{conflict.id}</td>
+                        <td className="px-3 py-2 text-slate-600">{conflict.fields.join(', ')}</td>
+                        <td className="px-3 py-2 text-slate-600">{conflict.kept === 'current' ? 'Current' : 'Imported'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="pt-2 flex">
+            <button
+              onClick={onClose}
+              className="flex-1 bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 shadow-sm transition-all"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
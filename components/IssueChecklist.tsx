@@ -0,0 +1,82 @@
+import React from 'react';
+import { ListChecks, ArrowRight } from 'lucide-react';
+import { AnalysisIssue, IssueSeverity } from '../types';
+
+interface IssueChecklistProps {
+  issues: AnalysisIssue[];
+  activeIndex: number | null;
+  onHover: (index: number | null) => void;
+  onToggleResolved: (index: number) => void;
+}
+
+export const SEVERITY_STYLES: Record<IssueSeverity, { badge: string; mark: string; activeMark: string }> = {
+  [IssueSeverity.Minor]: {
+    badge: 'bg-amber-50 text-amber-700 border-amber-200',
+    mark: 'bg-amber-100',
+    activeMark: 'bg-amber-300',
+  },
+  [IssueSeverity.Major]: {
+    badge: 'bg-orange-50 text-orange-700 border-orange-200',
+    mark: 'bg-orange-100',
+    activeMark: 'bg-orange-300',
+  },
+  [IssueSeverity.Critical]: {
+    badge: 'bg-rose-50 text-rose-700 border-rose-200',
+    mark: 'bg-rose-100',
+    activeMark: 'bg-rose-300',
+  },
+};
+
+export const IssueChecklist: React.FC<IssueChecklistProps> = ({ issues, activeIndex, onHover, onToggleResolved }) => {
+  const openCount = issues.filter(issue => !issue.resolved).length;
+
+  return (
+    <div className="mt-6">
+      <h5 className="text-[10px] font-black text-indigo-900 uppercase tracking-[0.2em] mb-3 flex items-center gap-2">
+        <ListChecks className="w-3.5 h-3.5" />
+        Issues ({openCount} open of {issues.length})
+      </h5>
+      <ul className="space-y-2">
+        {issues.map((issue, idx) => (
+          <li
+            key={idx}
+            onMouseEnter={() => onHover(idx)}
+            onMouseLeave={() => onHover(null)}
+            className={`flex items-start gap-3 p-3 rounded-xl border transition-all ${
+              activeIndex === idx ? 'bg-white border-indigo-200 shadow-sm' : 'bg-white/60 border-slate-100'
+            } ${issue.resolved ? 'opacity-50' : ''}`}
+          >
+            <input
+              type="checkbox"
+              checked={!!issue.resolved}
+              onChange={() => onToggleResolved(idx)}
+              title="Mark as resolved"
+              className="mt-1 w-4 h-4 accent-indigo-600 cursor-pointer"
+            />
+            <div className="flex-1 min-w-0 space-y-1.5">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={`px-2 py-0.5 rounded-md border text-[10px] font-black uppercase tracking-widest ${SEVERITY_STYLES[issue.severity].badge}`}>
+                  {issue.severity}
+                </span>
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{issue.category}</span>
+              </div>
+              <p className={`text-sm text-slate-700 font-medium ${issue.resolved ? 'line-through' : ''}`}>{issue.description}</p>
+              {(issue.targetSpan || issue.sourceSpan) && (
+                <p className="text-xs text-slate-500">
+                  {issue.sourceSpan && <span className="font-mono">“{issue.sourceSpan.text}”</span>}
+                  {issue.sourceSpan && issue.targetSpan && <span className="mx-1.5 text-slate-300">→</span>}
+                  {issue.targetSpan && <span className="font-mono text-rose-600">“{issue.targetSpan.text}”</span>}
+                </p>
+              )}
+              {issue.suggestion && (
+                <p className="text-xs text-emerald-700 font-medium flex items-center gap-1.5">
+                  <ArrowRight className="w-3 h-3 shrink-0" /> {issue.suggestion}
+                </p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Globe, X, Plus, Trash2, Pencil } from 'lucide-react';
+import { Locale, PluralCategory } from '../types';
+import { pluralCategoriesFor, numberSeparatorsFor } from '../services/languageService';
+
+interface LocalePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  locales: Locale[];
+  customLocales: Locale[];
+  onChangeCustom: (locales: Locale[]) => void;
+}
+
+const PLURAL_CATEGORIES: PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+const EMPTY_LOCALE: Locale = { name: '', code: '', script: 'Latn', direction: 'ltr', pluralCategories: ['one', 'other'] };
+
+const validate = (draft: Locale, others: Locale[]): string | null => {
+  if (!draft.name.trim()) return 'Enter a display name.';
+  if (others.some(l => l.custom && l.name === draft.name.trim())) return `A custom language named "${draft.name.trim()}" already exists.`;
+  try {
+    Intl.getCanonicalLocales(draft.code.trim());
+  } catch {
+    return `"${draft.code}" is not a valid BCP-47 tag.`;
+  }
+  if (!/^[A-Z][a-z]{3}$/.test(draft.script.trim())) return 'Script must be a four-letter ISO 15924 code such as "Latn".';
+  return null;
+};
+
+export const LocalePanel: React.FC<LocalePanelProps> = ({ isOpen, onClose, locales, customLocales, onChangeCustom }) => {
+  const [draft, setDraft] = useState<Locale | null>(null);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const startEdit = (locale: Locale | null) => {
+    setDraft(locale ? { ...locale, pluralCategories: locale.pluralCategories || pluralCategoriesFor(locale.name) } : EMPTY_LOCALE);
+    setEditingName(locale?.custom ? locale.name : null);
+    setError(null);
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const others = customLocales.filter(l => l.name !== editingName);
+    const problem = validate(draft, others.map(l => ({ ...l, custom: true })));
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const locale: Locale = {
+      ...draft,
+      name: draft.name.trim(),
+      code: Intl.getCanonicalLocales(draft.code.trim())[0],
+      script: draft.script.trim(),
+      font: draft.font?.trim() || undefined,
+      decimalSeparator: draft.decimalSeparator || undefined,
+      groupSeparator: draft.groupSeparator || undefined,
+    };
+    onChangeCustom([...others, locale]);
+    setDraft(null);
+  };
+
+  const togglePlural = (category: PluralCategory) => {
+    if (!draft) return;
+    const current = draft.pluralCategories || [];
+    const next = current.includes(category) ? current.filter(c => c !== category) : [...current, category];
+    setDraft({ ...draft, pluralCategories: PLURAL_CATEGORIES.filter(c => next.includes(c)) });
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div className="flex items-center gap-2 text-indigo-700">
+            <Globe className="w-5 h-5" />
+            <h3 className="font-bold">Languages</h3>
+            <span className="text-xs text-slate-400 font-bold">({locales.length})</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => startEdit(null)}
+              className="px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 flex items-center gap-1.5"
+            >
+              <Plus className="w-3.5 h-3.5" /> Add language
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {draft && (
+          <div className="p-4 border-b border-gray-100 bg-indigo-50/40 space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <label className="text-xs text-gray-600 space-y-1">
+                <span>Name</span>
+                <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Persian" className={inputClass} />
+              </label>
+              <label className="text-xs text-gray-600 space-y-1">
+                <span>BCP-47 code</span>
+                <input value={draft.code} onChange={(e) => setDraft({ ...draft, code: e.target.value })} placeholder="e.g. fa" className={inputClass} />
+              </label>
+              <label className="text-xs text-gray-600 space-y-1">
+                <span>Script</span>
+                <input value={draft.script} onChange={(e) => setDraft({ ...draft, script: e.target.value })} placeholder="e.g. Arab" className={inputClass} />
+              </label>
+              <label className="text-xs text-gray-600 space-y-1">
+                <span>Direction</span>
+                <select
+                  value={draft.direction}
+                  onChange={(e) => setDraft({ ...draft, direction: e.target.value as Locale['direction'] })}
+                  className={inputClass}
+                >
+                  <option value="ltr">Left to right</option>
+                  <option value="rtl">Right to left</option>
+                </select>
+              </label>
+              <label className="text-xs text-gray-600 space-y-1 col-span-2">
+                <span>Font (Google Fonts family)</span>
+                <input value={draft.font || ''} onChange={(e) => setDraft({ ...draft, font: e.target.value })} placeholder="e.g. Vazirmatn" className={inputClass} />
+              </label>
+              <label className="text-xs text-gray-600 space-y-1">
+                <span>Decimal separator</span>
+                <input value={draft.decimalSeparator || ''} maxLength={1} onChange={(e) => setDraft({ ...draft, decimalSeparator: e.target.value })} placeholder="." className={inputClass} />
+              </label>
+              <label className="text-xs text-gray-600 space-y-1">
+                <span>Group separator</span>
+                <input value={draft.groupSeparator || ''} maxLength={1} onChange={(e) => setDraft({ ...draft, groupSeparator: e.target.value })} placeholder="," className={inputClass} />
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+              <span>Plural forms:</span>
+              {PLURAL_CATEGORIES.map(category => (
+                <label key={category} className="flex items-center gap-1">
+                  <input type="checkbox" checked={(draft.pluralCategories || []).includes(category)} onChange={() => togglePlural(category)} />
+                  {category}
+                </label>
+              ))}
+              <label className="flex items-center gap-1 ml-auto">
+                <input type="checkbox" checked={!!draft.lowResource} onChange={(e) => setDraft({ ...draft, lowResource: e.target.checked })} />
+                Prefer back-translation
+              </label>
+            </div>
+            {error && <p className="text-xs text-rose-600 font-medium">{error}</p>}
+            <div className="flex gap-2">
+              <button onClick={save} className="px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700">
+                {editingName ? 'Save changes' : 'Add language'}
+              </button>
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-lg text-xs font-bold text-gray-600 bg-gray-100 hover:bg-gray-200">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="overflow-y-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="sticky top-0 bg-white border-b border-slate-200 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              <tr>
+                <th className="px-4 py-2">Language</th>
+                <th className="px-4 py-2">Code</th>
+                <th className="px-4 py-2">Script</th>
+                <th className="px-4 py-2">Dir</th>
+                <th className="px-4 py-2">Font</th>
+                <th className="px-4 py-2">Plurals</th>
+                <th className="px-4 py-2">Numbers</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {locales.map(locale => {
+                const separators = numberSeparatorsFor(locale.name);
+                return (
+                  <tr key={locale.name} className="hover:bg-slate-50">
+                    <td className="px-4 py-2 font-medium text-slate-800">
+                      {locale.name}
+                      {locale.custom && <span className="ml-2 px-1.5 rounded bg-indigo-50 text-indigo-600 text-[10px] font-bold">custom</span>}
+                    </td>
+                    <td className="px-4 py-2 font-mono text-xs text-slate-600">{locale.code}</td>
+                    <td className="px-4 py-2 font-mono text-xs text-slate-600">{locale.script}</td>
+                    <td className="px-4 py-2 text-xs text-slate-600 uppercase">{locale.direction}</td>
+                    <td className="px-4 py-2 text-xs text-slate-600">{locale.font || '—'}</td>
+                    <td className="px-4 py-2 text-xs text-slate-600">{pluralCategoriesFor(locale.name).join(', ')}</td>
+                    <td className="px-4 py-2 font-mono text-xs text-slate-600">{`1${separators.group}234${separators.decimal}5`}</td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      <button onClick={() => startEdit(locale)} title={locale.custom ? 'Edit' : 'Customize'} className="p-1 text-slate-300 hover:text-indigo-600">
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      {locale.custom && (
+                        <button
+                          onClick={() => onChangeCustom(customLocales.filter(l => l.name !== locale.name))}
+                          title="Remove"
+                          className="p-1 text-slate-300 hover:text-rose-600"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Database, CornerDownLeft } from 'lucide-react';
+import { MemoryMatch } from '../types';
+import { DiffText } from './DiffText';
+import { textAttributes } from '../services/languageService';
+
+interface MemoryMatchesPanelProps {
+  matches: MemoryMatch[];
+  sourceLanguage: string;
+  targetLanguage: string;
+  onInsert: (targetText: string) => void;
+}
+
+const scoreStyle = (score: number) => {
+  if (score === 100) return 'bg-emerald-50 text-emerald-700 border-emerald-200';
+  if (score >= 85) return 'bg-sky-50 text-sky-700 border-sky-200';
+  return 'bg-amber-50 text-amber-700 border-amber-200';
+};
+
+export const MemoryMatchesPanel: React.FC<MemoryMatchesPanelProps> = ({ matches, sourceLanguage, targetLanguage, onInsert }) => (
+  <div className="px-8 py-5 border-t border-slate-100 bg-slate-50/60 animate-fadeIn">
+    <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-3 flex items-center gap-2">
+      <Database className="w-3.5 h-3.5" />
+      Translation Memory ({matches.length})
+    </h4>
+    <ul className="space-y-2">
+      {matches.map(match => (
+        <li key={match.entry.id} className="flex items-start gap-3 p-3 rounded-xl border border-slate-100 bg-white">
+          <span className={`px-2 py-0.5 rounded-md border text-[10px] font-black tracking-widest shrink-0 ${scoreStyle(match.score)}`}>
+            {match.score}%
+          </span>
+          <div className="flex-1 min-w-0 space-y-1 text-sm">
+            <p {...textAttributes(sourceLanguage)} className="text-slate-500"><DiffText tokens={match.sourceDiff} /></p>
+            <p {...textAttributes(targetLanguage)} className="text-slate-900 font-medium">{match.entry.targetText}</p>
+          </div>
+          <button
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onInsert(match.entry.targetText)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest text-indigo-700 bg-indigo-50 hover:bg-indigo-100 shrink-0"
+          >
+            <CornerDownLeft className="w-3.5 h-3.5" /> Insert
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { Database, X, Trash2, FileUp, Search } from 'lucide-react';
+import { MemoryEntry } from '../types';
+import { textAttributes } from '../services/languageService';
+
+interface MemoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sourceLanguage: string;
+  targetLanguage: string;
+  entries: MemoryEntry[];
+  onRemove: (ids: string[]) => void;
+  onImportFile: (file: File) => void;
+}
+
+const VISIBLE_LIMIT = 200;
+
+export const MemoryPanel: React.FC<MemoryPanelProps> = ({
+  isOpen,
+  onClose,
+  sourceLanguage,
+  targetLanguage,
+  entries,
+  onRemove,
+  onImportFile,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [filter, setFilter] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportFile(file);
+    e.target.value = '';
+  };
+
+  const handleClear = () => {
+    if (window.confirm(`Delete all ${entries.length} ${sourceLanguage} → ${targetLanguage} memory entries?`)) {
+      onRemove(entries.map(entry => entry.id));
+    }
+  };
+
+  const needle = filter.trim().toLowerCase();
+  const matching = (needle
+    ? entries.filter(entry => entry.sourceText.toLowerCase().includes(needle) || entry.targetText.toLowerCase().includes(needle))
+    : entries
+  ).slice().sort((a, b) => b.updatedAt - a.updatedAt);
+  const visible = matching.slice(0, VISIBLE_LIMIT);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div className="flex items-center gap-2 text-indigo-700">
+            <Database className="w-5 h-5" />
+            <h3 className="font-bold">Translation Memory · {sourceLanguage} → {targetLanguage}</h3>
+            <span className="text-xs text-slate-400 font-bold">({entries.length} units)</span>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-100 flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2 flex-1 min-w-[200px] px-3 py-2 border border-slate-200 rounded-lg">
+            <Search className="w-4 h-4 text-slate-400" />
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Search source or target..."
+              className="flex-1 text-sm outline-none"
+            />
+          </div>
+          <input ref={fileInputRef} type="file" accept=".tmx,.xml" className="hidden" onChange={handleFileChange} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 text-xs font-bold text-slate-600 bg-slate-50 border border-slate-200 rounded-lg hover:bg-slate-100 flex items-center gap-1.5"
+          >
+            <FileUp className="w-3.5 h-3.5" /> Import TMX
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="px-3 py-2 text-xs font-bold text-rose-600 bg-rose-50 border border-rose-100 rounded-lg hover:bg-rose-100 flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <Trash2 className="w-3.5 h-3.5" /> Clear
+          </button>
+        </div>
+
+        <div className="overflow-y-auto custom-scrollbar flex-1">
+          {visible.length > 0 ? (
+            <table className="w-full text-left text-sm border-collapse">
+              <thead className="sticky top-0 bg-white border-b border-slate-200 z-10">
+                <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  <th className="px-4 py-2 w-[45%]">{sourceLanguage}</th>
+                  <th className="px-4 py-2">{targetLanguage}</th>
+                  <th className="px-4 py-2 w-20">Origin</th>
+                  <th className="px-4 py-2 w-10"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {visible.map(entry => (
+                  <tr key={entry.id}>
+                    <td {...textAttributes(sourceLanguage)} className="px-4 py-2 text-slate-700">{entry.sourceText}</td>
+                    <td {...textAttributes(targetLanguage)} className="px-4 py-2 text-slate-900 font-medium">{entry.targetText}</td>
+                    <td className="px-4 py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">{entry.origin}</td>
+                    <td className="px-2 py-2">
+                      <button
+                        onClick={() => onRemove([entry.id])}
+                        className="p-1.5 text-slate-300 hover:text-rose-600 rounded-md"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="py-16 text-center text-slate-400 text-sm">
+              {entries.length === 0
+                ? 'The memory is empty. Approve segments or import a TMX file to fill it.'
+                : 'No units match the search.'}
+            </div>
+          )}
+          {matching.length > VISIBLE_LIMIT && (
+            <p className="py-3 text-center text-xs text-slate-400">
+              Showing {VISIBLE_LIMIT} of {matching.length} units. Refine the search to see more.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
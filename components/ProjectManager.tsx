@@ -0,0 +1,236 @@
+import React, { useRef, useState } from 'react';
+import { FolderOpen, X, Plus, Pencil, Copy, Archive, ArchiveRestore, Trash2, Check, Download, FileUp } from 'lucide-react';
+import { Locale, ProjectSummary } from '../types';
+
+interface ProjectManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  locales: Locale[];
+  sourceLanguage: string;
+  targetLanguage: string;
+  onOpenProject: (id: string) => void;
+  onCreate: (name: string, sourceLanguage: string, targetLanguage: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImportFile: (file: File) => void;
+}
+
+interface NewProjectDraft {
+  name: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+export const ProjectManager: React.FC<ProjectManagerProps> = ({
+  isOpen,
+  onClose,
+  projects,
+  activeProjectId,
+  locales,
+  sourceLanguage,
+  targetLanguage,
+  onOpenProject,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onArchive,
+  onDelete,
+  onExport,
+  onImportFile,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<NewProjectDraft | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  if (!isOpen) return null;
+
+  const create = () => {
+    if (!draft || !draft.name.trim()) return;
+    onCreate(draft.name.trim(), draft.sourceLanguage, draft.targetLanguage);
+    setDraft(null);
+  };
+
+  const rename = () => {
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportFile(file);
+    e.target.value = '';
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (window.confirm(`Delete "${project.name}" and its ${project.segmentCount} segments? This cannot be undone.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  const archivedCount = projects.filter(p => p.archived).length;
+  const visible = projects.filter(p => showArchived || !p.archived);
+  const inputClass = 'px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+  const languageOptions = locales.map(({ name }) => <option key={name} value={name}>{name}</option>);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div className="flex items-center gap-2 text-indigo-700">
+            <FolderOpen className="w-5 h-5" />
+            <h3 className="font-bold">Projects</h3>
+            <span className="text-xs text-slate-400 font-bold">({projects.length})</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <input ref={fileInputRef} type="file" accept=".json" className="hidden" onChange={handleFileChange} />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              title="Restore a project from a backup package"
+              className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 flex items-center gap-1.5"
+            >
+              <FileUp className="w-3.5 h-3.5" /> Import
+            </button>
+            <button
+              onClick={() => setDraft({ name: '', sourceLanguage, targetLanguage })}
+              className="px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 flex items-center gap-1.5"
+            >
+              <Plus className="w-3.5 h-3.5" /> New project
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {draft && (
+          <div className="p-4 border-b border-gray-100 bg-indigo-50/40 flex flex-wrap items-end gap-3">
+            <label className="text-xs text-gray-600 space-y-1 flex-1 min-w-[200px]">
+              <span className="block">Name</span>
+              <input
+                autoFocus
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && create()}
+                placeholder="e.g. Product launch FR"
+                className={`${inputClass} w-full`}
+              />
+            </label>
+            <label className="text-xs text-gray-600 space-y-1">
+              <span className="block">Source</span>
+              <select value={draft.sourceLanguage} onChange={(e) => setDraft({ ...draft, sourceLanguage: e.target.value })} className={inputClass}>
+                {languageOptions}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600 space-y-1">
+              <span className="block">Target</span>
+              <select value={draft.targetLanguage} onChange={(e) => setDraft({ ...draft, targetLanguage: e.target.value })} className={inputClass}>
+                {languageOptions}
+              </select>
+            </label>
+            <button
+              onClick={create}
+              disabled={!draft.name.trim()}
+              className="px-3 py-2 rounded-lg text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Create
+            </button>
+            <button onClick={() => setDraft(null)} className="px-3 py-2 rounded-lg text-xs font-bold text-gray-600 bg-gray-100 hover:bg-gray-200">
+              Cancel
+            </button>
+          </div>
+        )}
+
+        <div className="overflow-y-auto custom-scrollbar flex-1 divide-y divide-slate-50">
+          {visible.map(project => {
+            const isActive = project.id === activeProjectId;
+            return (
+              <div key={project.id} className={`px-4 py-3 flex items-center gap-3 ${isActive ? 'bg-indigo-50/60' : 'hover:bg-slate-50'}`}>
+                <div className="flex-1 min-w-0">
+                  {renaming?.id === project.id ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        autoFocus
+                        value={renaming.name}
+                        onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') rename();
+                          if (e.key === 'Escape') setRenaming(null);
+                        }}
+                        className={`${inputClass} flex-1`}
+                      />
+                      <button onClick={rename} title="Save name" className="p-1 text-indigo-600 hover:text-indigo-800">
+                        <Check className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-sm font-bold text-slate-800 truncate">
+                      {project.name}
+                      {isActive && <span className="ml-2 px-1.5 rounded bg-indigo-100 text-indigo-700 text-[10px] font-black uppercase">Open</span>}
+                      {project.archived && <span className="ml-2 px-1.5 rounded bg-slate-100 text-slate-500 text-[10px] font-black uppercase">Archived</span>}
+                    </p>
+                  )}
+                  <p className="text-xs text-slate-400 mt-0.5">
+                    {project.sourceLanguage} → {project.targetLanguage} · {project.segmentCount} segment{project.segmentCount === 1 ? '' : 's'} · updated {new Date(project.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {!isActive && (
+                    <button
+                      onClick={() => onOpenProject(project.id)}
+                      className="px-3 py-1.5 mr-1 rounded-lg text-xs font-bold text-indigo-700 bg-white border border-indigo-200 hover:bg-indigo-50"
+                    >
+                      Open
+                    </button>
+                  )}
+                  <button onClick={() => setRenaming({ id: project.id, name: project.name })} title="Rename" className="p-1.5 text-slate-300 hover:text-indigo-600">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onExport(project.id)} title="Export backup package" className="p-1.5 text-slate-300 hover:text-indigo-600">
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onDuplicate(project.id)} title="Duplicate" className="p-1.5 text-slate-300 hover:text-indigo-600">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onArchive(project.id, !project.archived)}
+                    disabled={isActive}
+                    title={isActive ? 'Open another project first' : project.archived ? 'Restore from archive' : 'Archive'}
+                    className="p-1.5 text-slate-300 hover:text-amber-600 disabled:opacity-40 disabled:hover:text-slate-300"
+                  >
+                    {project.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(project)}
+                    disabled={isActive}
+                    title={isActive ? 'Open another project first' : 'Delete'}
+                    className="p-1.5 text-slate-300 hover:text-rose-600 disabled:opacity-40 disabled:hover:text-slate-300"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+          {visible.length === 0 && (
+            <div className="py-16 text-center text-slate-400 text-sm">No active projects. Create one or show the archive.</div>
+          )}
+        </div>
+
+        {archivedCount > 0 && (
+          <div className="p-3 border-t border-gray-100 bg-gray-50">
+            <label className="flex items-center gap-2 text-xs text-slate-500 font-medium">
+              <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+              Show {archivedCount} archived project{archivedCount === 1 ? '' : 's'}
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
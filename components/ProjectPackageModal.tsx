@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { PackageOpen, X, AlertTriangle } from 'lucide-react';
+import { PackageImportMode, ProjectSummary } from '../types';
+import { ParsedPackage } from '../services/projectPackage';
+
+interface ProjectPackageModalProps {
+  fileName: string;
+  parsed: ParsedPackage | null;
+  /** Local project with the same id as the packaged one, if there is one. */
+  existing: ProjectSummary | null;
+  onApply: (mode: PackageImportMode) => void;
+  onClose: () => void;
+}
+
+const MODES: Array<{ id: PackageImportMode; label: string; description: string }> = [
+  { id: 'merge', label: 'Merge', description: 'Add new segments. Where a segment differs, keep the current version.' },
+  { id: 'replace', label: 'Replace', description: 'Add new segments. Where a segment differs, take the imported version.' },
+  { id: 'copy', label: 'Import as a copy', description: 'Leave the existing project alone and restore the package as a new project.' },
+];
+
+export const ProjectPackageModal: React.FC<ProjectPackageModalProps> = ({ fileName, parsed, existing, onApply, onClose }) => {
+  const [mode, setMode] = useState<PackageImportMode>('merge');
+
+  if (!parsed) return null;
+
+  const { project } = parsed.pkg;
+  const languageChanged = existing && (existing.sourceLanguage !== project.sourceLanguage || existing.targetLanguage !== project.targetLanguage);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg overflow-hidden">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div className="flex items-center gap-2 text-indigo-700">
+            <PackageOpen className="w-5 h-5" />
+            <h3 className="font-bold">Restore Project</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="text-xs text-slate-500 font-medium break-all">
+            <span className="font-black uppercase tracking-widest text-slate-400">Project package</span> · {fileName}
+          </div>
+
+          <div className="text-sm text-slate-700 space-y-1">
+            <p className="font-bold text-slate-900">{project.name}</p>
+            <p className="text-xs text-slate-500">
+              {project.sourceLanguage} → {project.targetLanguage} · {project.segments.length} segment{project.segments.length === 1 ? '' : 's'} · exported {new Date(parsed.pkg.exportedAt).toLocaleString()}
+            </p>
+            {parsed.skipped.length > 0 && (
+              <p className="text-xs text-amber-700">{parsed.skipped.length} invalid segment{parsed.skipped.length === 1 ? '' : 's'} will be skipped.</p>
+            )}
+          </div>
+
+          {existing ? (
+            <div className="space-y-2">
+              <p className="text-sm text-slate-600">
+                This package belongs to <strong>{existing.name}</strong>, which already exists here. Segments are matched by id.
+              </p>
+              {languageChanged && (
+                <div className="bg-amber-50 text-amber-800 text-xs p-2 rounded-lg border border-amber-100 flex gap-2">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  <p>The existing project is {existing.sourceLanguage} → {existing.targetLanguage}; merging keeps that language pair.</p>
+                </div>
+              )}
+              {MODES.map(option => (
+                <label
+                  key={option.id}
+                  className={`flex gap-3 p-3 rounded-lg border cursor-pointer ${mode === option.id ? 'border-indigo-300 bg-indigo-50/60' : 'border-slate-200 hover:bg-slate-50'}`}
+                >
+                  <input type="radio" name="package-mode" checked={mode === option.id} onChange={() => setMode(option.id)} className="mt-1" />
+                  <span>
+                    <span className="block text-sm font-bold text-slate-800">{option.label}</span>
+                    <span className="block text-xs text-slate-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-600">The project will be restored as a new project and opened.</p>
+          )}
+
+          <div className="pt-2 flex gap-2">
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-bold hover:bg-gray-200 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(mode)}
+              className="flex-1 bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 shadow-sm transition-all"
+            >
+              {existing ? 'Import' : 'Restore'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, X, Save, CheckCircle, RotateCcw, AlertTriangle } from 'lucide-react';
+import { ProjectSettings, Register } from '../types';
+import { REGISTER_LABELS, PROMPT_VARIABLES, DEFAULT_AUDIT_TEMPLATE, addPromptVersion, unknownVariables } from '../services/promptService';
+
+interface ProjectSettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: ProjectSettings;
+  onChange: (settings: ProjectSettings) => void;
+}
+
+export const ProjectSettingsPanel: React.FC<ProjectSettingsPanelProps> = ({ isOpen, onClose, settings, onChange }) => {
+  const [viewedVersion, setViewedVersion] = useState(settings.activePromptVersion);
+  const viewed = settings.promptTemplates.find(t => t.version === viewedVersion) || settings.promptTemplates[0];
+  const [draft, setDraft] = useState(viewed.text);
+
+  useEffect(() => {
+    if (isOpen) setViewedVersion(settings.activePromptVersion);
+  }, [isOpen, settings.activePromptVersion]);
+
+  useEffect(() => {
+    setDraft(viewed.text);
+  }, [viewed.text]);
+
+  if (!isOpen) return null;
+
+  const isDirty = draft !== viewed.text;
+  const unknown = unknownVariables(draft);
+  const update = (updates: Partial<ProjectSettings>) => onChange({ ...settings, ...updates });
+
+  const insertVariable = (name: string) => setDraft(`${draft}{{${name}}}`);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none';
+  const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div className="flex items-center gap-2 text-indigo-700">
+            <SlidersHorizontal className="w-5 h-5" />
+            <h3 className="font-bold">Project Settings</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="bg-blue-50 text-blue-800 text-sm p-3 rounded-lg border border-blue-100">
+              These instructions are added to every audit through the <code>{'{{projectInstructions}}'}</code> variable.
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Register / formality</label>
+                <select
+                  value={settings.register}
+                  onChange={(e) => update({ register: e.target.value as Register })}
+                  className={inputClass}
+                >
+                  {(Object.keys(REGISTER_LABELS) as Register[]).map(register => (
+                    <option key={register} value={register}>{REGISTER_LABELS[register]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Domain</label>
+                <input
+                  value={settings.domain}
+                  onChange={(e) => update({ domain: e.target.value })}
+                  placeholder="e.g. Medical devices"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Audience</label>
+              <input
+                value={settings.audience}
+                onChange={(e) => update({ audience: e.target.value })}
+                placeholder="e.g. Patients with no medical training"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Client style guide</label>
+              <textarea
+                value={settings.styleGuide}
+                onChange={(e) => update({ styleGuide: e.target.value })}
+                rows={12}
+                placeholder={'Formality, gender-neutral forms, units, brand names...\ne.g. Address the reader as "usted". Keep "SmartSync" in English.'}
+                className={`${inputClass} font-mono text-xs`}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3 flex flex-col">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700">Audit prompt template</label>
+              <select
+                value={viewed.version}
+                onChange={(e) => setViewedVersion(Number(e.target.value))}
+                className="ml-auto px-2 py-1 border border-gray-300 rounded-lg text-xs outline-none"
+              >
+                {[...settings.promptTemplates].reverse().map(template => (
+                  <option key={template.version} value={template.version}>
+                    v{template.version}
+                    {template.version === 1 ? ' · Default' : ` · ${new Date(template.createdAt).toLocaleString()}`}
+                    {template.version === settings.activePromptVersion ? ' (active)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={16}
+              spellCheck={false}
+              className={`${inputClass} font-mono text-xs flex-1`}
+            />
+            <div className="flex flex-wrap gap-1">
+              {PROMPT_VARIABLES.map(variable => (
+                <button
+                  key={variable.name}
+                  onClick={() => insertVariable(variable.name)}
+                  title={variable.description}
+                  className="px-1.5 py-0.5 rounded bg-slate-100 hover:bg-indigo-50 hover:text-indigo-700 text-[10px] font-mono text-slate-600"
+                >
+                  {`{{${variable.name}}}`}
+                </button>
+              ))}
+            </div>
+            {unknown.length > 0 && (
+              <div className="flex items-center gap-1.5 text-xs text-amber-700">
+                <AlertTriangle className="w-3.5 h-3.5" />
+                Unknown {unknown.length === 1 ? 'variable' : 'variables'} left as written: {unknown.map(name => `{{${name}}}`).join(', ')}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => onChange(addPromptVersion(settings, draft))}
+                disabled={!isDirty || !draft.trim()}
+                className="px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 flex items-center gap-1.5 disabled:opacity-50"
+              >
+                <Save className="w-3.5 h-3.5" /> Save as new version
+              </button>
+              <button
+                onClick={() => update({ activePromptVersion: viewed.version })}
+                disabled={isDirty || viewed.version === settings.activePromptVersion}
+                className="px-3 py-1.5 rounded-lg text-xs font-bold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 flex items-center gap-1.5 disabled:opacity-50"
+              >
+                <CheckCircle className="w-3.5 h-3.5" /> Use this version
+              </button>
+              <button
+                onClick={() => setDraft(DEFAULT_AUDIT_TEMPLATE)}
+                disabled={draft === DEFAULT_AUDIT_TEMPLATE}
+                className="px-3 py-1.5 rounded-lg text-xs font-bold text-gray-600 bg-gray-100 hover:bg-gray-200 flex items-center gap-1.5 disabled:opacity-50"
+              >
+                <RotateCcw className="w-3.5 h-3.5" /> Start from default
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Saved versions are never overwritten; each audit records the version it was produced with.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
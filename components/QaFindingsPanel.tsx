@@ -0,0 +1,33 @@
+import React from 'react';
+import { ShieldCheck, AlertTriangle, AlertCircle } from 'lucide-react';
+import { QaFinding } from '../types';
+import { QA_CHECKS } from '../services/qaService';
+
+interface QaFindingsPanelProps {
+  findings: QaFinding[];
+}
+
+const CHECK_LABELS = Object.fromEntries(QA_CHECKS.map(check => [check.id, check.label]));
+
+export const QaFindingsPanel: React.FC<QaFindingsPanelProps> = ({ findings }) => (
+  <div className="px-8 py-5 border-t border-slate-100 bg-amber-50/40 animate-fadeIn">
+    <h4 className="text-[10px] font-black text-amber-900 uppercase tracking-[0.2em] mb-3 flex items-center gap-2">
+      <ShieldCheck className="w-3.5 h-3.5" />
+      QA Checks ({findings.length})
+    </h4>
+    <ul className="space-y-1.5 text-sm text-slate-700">
+      {findings.map((finding, idx) => {
+        const Icon = finding.severity === 'error' ? AlertCircle : AlertTriangle;
+        return (
+          <li key={idx} className="flex items-start gap-2">
+            <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${finding.severity === 'error' ? 'text-rose-500' : 'text-amber-500'}`} />
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-0.5 shrink-0">
+              {CHECK_LABELS[finding.checkId]}
+            </span>
+            <span className="font-medium">{finding.message}</span>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
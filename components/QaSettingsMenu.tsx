@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { QaSettings } from '../types';
+import { QA_CHECKS } from '../services/qaService';
+
+interface QaSettingsMenuProps {
+  settings: QaSettings;
+  onChange: (settings: QaSettings) => void;
+  findingCount: number;
+}
+
+export const QaSettingsMenu: React.FC<QaSettingsMenuProps> = ({ settings, onChange, findingCount }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const enabledCount = QA_CHECKS.filter(check => settings[check.id] !== false).length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-xs font-bold text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1.5"
+      >
+        <ShieldCheck className="w-3 h-3" />
+        QA Checks
+        {findingCount > 0 && (
+          <span className="px-1.5 py-0.5 rounded-md bg-amber-100 text-amber-700 text-[10px]">{findingCount}</span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-slate-200 rounded-xl shadow-lg z-20 p-4 animate-fadeIn">
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              Offline checks ({enabledCount}/{QA_CHECKS.length})
+            </span>
+          </div>
+          <div className="space-y-2.5">
+            {QA_CHECKS.map(check => (
+              <label key={check.id} className="flex items-start gap-2.5 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings[check.id] !== false}
+                  onChange={(e) => onChange({ ...settings, [check.id]: e.target.checked })}
+                  className="mt-0.5 w-4 h-4 accent-indigo-600"
+                />
+                <span>
+                  <span className="block text-xs font-bold text-slate-700">{check.label}</span>
+                  <span className="block text-[11px] text-slate-400 leading-snug">{check.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
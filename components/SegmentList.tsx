@@ -1,36 +1,255 @@
-import React from 'react';
-import { Segment } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Segment, ExportFormat, BatchProgress, BatchSettings, GlossaryEntry, QaFinding, QaSettings, MemoryEntry, RevisionOrigin, SegmentFilter, SegmentSort, SegmentLayout, SegmentStatus, SegmentCategory, AnalysisError } from '../types';
 import { SegmentRow } from './SegmentRow';
-import { Plus, Trash2, FileText } from 'lucide-react';
+import { CompactSegmentRow } from './CompactSegmentRow';
+import { VirtualList } from './VirtualList';
+import { BatchControls } from './BatchControls';
+import { QaSettingsMenu } from './QaSettingsMenu';
+import { buildQaContext, runQaChecks } from '../services/qaService';
+import { SegmentToolbar } from './SegmentToolbar';
+import { FindReplaceModal } from './FindReplaceModal';
+import { EMPTY_FILTER, filterSegments, sortSegments } from '../services/searchService';
+import { isLowResourceLanguage } from '../services/languageService';
+import { subtitleTiming } from '../services/subtitleService';
+import { Plus, Trash2, FileText, FileUp, Download, Undo2, Redo2 } from 'lucide-react';
 
 interface SegmentListProps {
   segments: Segment[];
+  sourceLanguage: string;
   targetLanguage: string;
-  onUpdate: (id: string, updates: Partial<Segment>) => void;
+  onUpdate: (id: string, updates: Partial<Segment>, origin?: RevisionOrigin) => void;
   onDelete: (id: string) => void;
-  onRunAnalysis: (id: string) => void;
+  onRunAnalysis: (id: string, force?: boolean) => void;
+  onCancelAnalysis: (id: string) => void;
+  onBackTranslate: (id: string) => Promise<AnalysisError | null>;
   onAddSegment: () => void;
   onClearAll: () => void;
+  onImportFile: (file: File) => void;
+  onExport: (format: ExportFormat) => void;
+  selectedIds: string[];
+  onToggleSelect: (id: string) => void;
+  batchProgress: BatchProgress | null;
+  batchSettings: BatchSettings;
+  batchEligibleCount: number;
+  onStartBatch: () => void;
+  onPauseBatch: () => void;
+  onResumeBatch: () => void;
+  onCancelBatch: () => void;
+  onDismissBatch: () => void;
+  onBatchSettingsChange: (settings: BatchSettings) => void;
+  onOpenSettings: () => void;
+  glossaryEntries: GlossaryEntry[];
+  qaSettings: QaSettings;
+  onQaSettingsChange: (settings: QaSettings) => void;
+  memoryEntries: MemoryEntry[];
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onReplaceTargets: (changes: Array<{ id: string; targetText: string }>) => void;
+  activeSegmentId: string | null;
+  onActiveSegmentChange: (id: string | null) => void;
+  /** Whether a dialog is open; review-mode shortcuts are off while one is. */
+  modalOpen: boolean;
 }
 
 export const SegmentList: React.FC<SegmentListProps> = ({
   segments,
+  sourceLanguage,
   targetLanguage,
   onUpdate,
   onDelete,
   onRunAnalysis,
+  onCancelAnalysis,
+  onBackTranslate,
   onAddSegment,
   onClearAll,
+  onImportFile,
+  onExport,
+  selectedIds,
+  onToggleSelect,
+  batchProgress,
+  batchSettings,
+  batchEligibleCount,
+  onStartBatch,
+  onPauseBatch,
+  onResumeBatch,
+  onCancelBatch,
+  onDismissBatch,
+  onBatchSettingsChange,
+  onOpenSettings,
+  glossaryEntries,
+  qaSettings,
+  onQaSettingsChange,
+  memoryEntries,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onReplaceTargets,
+  activeSegmentId,
+  onActiveSegmentChange,
+  modalOpen,
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+
+  const qaFindings = useMemo(() => {
+    const context = buildQaContext(segments, glossaryEntries, sourceLanguage, targetLanguage);
+    return new Map<string, QaFinding[]>(segments.map(segment => [segment.id, runQaChecks(segment, qaSettings, context)]));
+  }, [segments, glossaryEntries, qaSettings, sourceLanguage, targetLanguage]);
+  const [filter, setFilter] = useState<SegmentFilter>(EMPTY_FILTER);
+  const [sort, setSort] = useState<SegmentSort>('original');
+  const [isReplaceOpen, setIsReplaceOpen] = useState(false);
+  const visibleSegments = useMemo(
+    () => sortSegments(filterSegments(segments, filter), sort),
+    [segments, filter, sort]
+  );
+
+  const [layout, setLayout] = useState<SegmentLayout>('cards');
+  const [isReviewMode, setIsReviewMode] = useState(false);
+  const [isBackTranslationMode, setIsBackTranslationMode] = useState(() => isLowResourceLanguage(targetLanguage));
+  useEffect(() => setIsBackTranslationMode(isLowResourceLanguage(targetLanguage)), [targetLanguage]);
+  const activeIndex = visibleSegments.findIndex(segment => segment.id === activeSegmentId);
+
+  useEffect(() => {
+    if (!isReviewMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target instanceof HTMLTextAreaElement || target instanceof HTMLInputElement || target instanceof HTMLSelectElement) {
+        if (e.key === 'Escape') target.blur();
+        return;
+      }
+      // Modals own the keyboard while they are open.
+      if (modalOpen || isReplaceOpen) return;
+
+      const active = visibleSegments[activeIndex];
+      const move = (delta: number) => {
+        const next = activeIndex === -1 ? 0 : Math.min(visibleSegments.length - 1, Math.max(0, activeIndex + delta));
+        if (visibleSegments[next]) onActiveSegmentChange(visibleSegments[next].id);
+      };
+      const cycleCategory = (delta: number) => {
+        const categories = Object.values(SegmentCategory);
+        const index = categories.indexOf(active.category);
+        onUpdate(active.id, { category: categories[(index + delta + categories.length) % categories.length] });
+      };
+
+      const key = e.key;
+      let handled = true;
+      if (key === 'j' || key === 'ArrowDown') move(1);
+      else if (key === 'k' || key === 'ArrowUp') move(-1);
+      else if (!active) handled = false;
+      else if (key === 'Enter') onRunAnalysis(active.id);
+      else if (key === 'a') onUpdate(active.id, { status: SegmentStatus.Approved });
+      else if (key === 'n') onUpdate(active.id, { status: SegmentStatus.NeedsWork });
+      else if (key === 'c') cycleCategory(1);
+      else if (key === 'C') cycleCategory(-1);
+      else if (key === 'b') onBackTranslate(active.id);
+      else if (key === 'e') {
+        document.querySelector<HTMLTextAreaElement>(`#segment-${CSS.escape(active.id)} textarea[name="targetText"]`)?.focus();
+      } else handled = false;
+      if (handled) e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isReviewMode, modalOpen, isReplaceOpen, visibleSegments, activeIndex, onActiveSegmentChange, onUpdate, onRunAnalysis, onBackTranslate]);
+
+  const hasSubtitles = useMemo(() => segments.some(segment => subtitleTiming(segment)), [segments]);
+  const qaFindingCount = Array.from(qaFindings.values()).reduce((sum, findings) => sum + findings.length, 0);
+
+  const handleExport = (format: ExportFormat) => {
+    setIsExportMenuOpen(false);
+    onExport(format);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportFile(file);
+    e.target.value = '';
+  };
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 pb-32">
-      {segments.length > 0 ? (
-        <>
-          <div className="flex justify-between items-center mb-6">
-            <h2 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
-              <FileText className="w-4 h-4" />
-              Working Set ({segments.length})
-            </h2>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-sm font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <FileText className="w-4 h-4" />
+          Working Set ({segments.length})
+        </h2>
+        <div className="flex items-center gap-5">
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              title="Undo (Ctrl+Z)"
+              className="p-1 text-slate-400 hover:text-indigo-600 transition-colors disabled:opacity-30 disabled:hover:text-slate-400"
+            >
+              <Undo2 className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              className="p-1 text-slate-400 hover:text-indigo-600 transition-colors disabled:opacity-30 disabled:hover:text-slate-400"
+            >
+              <Redo2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlf,.xliff,.xml,.srt,.vtt"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            title="Import an XLIFF, SRT or WebVTT file"
+            className="text-xs font-bold text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1.5"
+          >
+            <FileUp className="w-3 h-3" />
+            Import
+          </button>
+          {segments.length > 0 && (
+            <QaSettingsMenu settings={qaSettings} onChange={onQaSettingsChange} findingCount={qaFindingCount} />
+          )}
+          {segments.length > 0 && (
+            <div className="relative">
+              <button
+                onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                className="text-xs font-bold text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1.5"
+              >
+                <Download className="w-3 h-3" />
+                Export
+              </button>
+              {isExportMenuOpen && (
+                <div className="absolute right-0 mt-2 w-52 bg-white border border-slate-200 rounded-xl shadow-lg z-20 overflow-hidden animate-fadeIn">
+                  <button
+                    onClick={() => handleExport('xliff')}
+                    className="w-full text-left px-4 py-2.5 text-xs font-bold text-slate-600 hover:bg-indigo-50 hover:text-indigo-700"
+                  >
+                    XLIFF (all segments)
+                  </button>
+                  <button
+                    onClick={() => handleExport('tmx')}
+                    className="w-full text-left px-4 py-2.5 text-xs font-bold text-slate-600 hover:bg-indigo-50 hover:text-indigo-700 border-t border-slate-100"
+                  >
+                    TMX 1.4 (approved only)
+                  </button>
+                  {hasSubtitles && (['srt', 'vtt'] as const).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleExport(format)}
+                      className="w-full text-left px-4 py-2.5 text-xs font-bold text-slate-600 hover:bg-indigo-50 hover:text-indigo-700 border-t border-slate-100"
+                    >
+                      {format === 'srt' ? 'SRT' : 'WebVTT'} (original timings)
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          {segments.length > 0 && (
             <button
               onClick={onClearAll}
               className="text-xs font-bold text-slate-400 hover:text-rose-600 transition-colors flex items-center gap-1.5"
@@ -38,19 +257,100 @@ export const SegmentList: React.FC<SegmentListProps> = ({
               <Trash2 className="w-3 h-3" />
               Clear All
             </button>
-          </div>
-          <div className="space-y-6">
-            {segments.map((segment) => (
+          )}
+        </div>
+      </div>
+
+      {segments.length > 0 && (
+        <BatchControls
+          progress={batchProgress}
+          settings={batchSettings}
+          eligibleCount={batchEligibleCount}
+          selectedCount={selectedIds.length}
+          onStart={onStartBatch}
+          onPause={onPauseBatch}
+          onResume={onResumeBatch}
+          onCancel={onCancelBatch}
+          onDismiss={onDismissBatch}
+          onSettingsChange={onBatchSettingsChange}
+        />
+      )}
+
+      {segments.length > 0 && (
+        <SegmentToolbar
+          filter={filter}
+          onFilterChange={setFilter}
+          sort={sort}
+          onSortChange={setSort}
+          visibleCount={visibleSegments.length}
+          totalCount={segments.length}
+          onOpenReplace={() => setIsReplaceOpen(true)}
+          layout={layout}
+          onLayoutChange={setLayout}
+          isReviewMode={isReviewMode}
+          onReviewModeChange={setIsReviewMode}
+          isBackTranslationMode={isBackTranslationMode}
+          onBackTranslationModeChange={setIsBackTranslationMode}
+        />
+      )}
+
+      <FindReplaceModal
+        isOpen={isReplaceOpen}
+        onClose={() => setIsReplaceOpen(false)}
+        segments={segments}
+        onApply={onReplaceTargets}
+      />
+
+      {segments.length > 0 ? (
+        <>
+          {visibleSegments.length === 0 && (
+            <div className="py-12 text-center text-sm text-slate-400">No segments match the current filters.</div>
+          )}
+          <VirtualList
+            items={visibleSegments}
+            getKey={(segment) => segment.id}
+            estimateHeight={layout === 'compact' ? 64 : 420}
+            gap={layout === 'compact' ? 8 : 40}
+            activeIndex={activeIndex === -1 ? null : activeIndex}
+            renderItem={(segment, index) => layout === 'compact' ? (
+              <CompactSegmentRow
+                segment={segment}
+                index={index}
+                sourceLanguage={sourceLanguage}
+                targetLanguage={targetLanguage}
+                onUpdate={onUpdate}
+                onDelete={onDelete}
+                onRunAnalysis={onRunAnalysis}
+                onCancelAnalysis={onCancelAnalysis}
+                isSelected={selectedIds.includes(segment.id)}
+                onToggleSelect={onToggleSelect}
+                isActive={segment.id === activeSegmentId}
+                onActivate={onActiveSegmentChange}
+                qaFindings={qaFindings.get(segment.id) || []}
+              />
+            ) : (
               <SegmentRow
-                key={segment.id}
                 segment={segment}
+                sourceLanguage={sourceLanguage}
                 targetLanguage={targetLanguage}
                 onUpdate={onUpdate}
                 onDelete={onDelete}
                 onRunAnalysis={onRunAnalysis}
+                onCancelAnalysis={onCancelAnalysis}
+                onBackTranslate={onBackTranslate}
+                preferBackTranslation={isBackTranslationMode}
+                isSelected={selectedIds.includes(segment.id)}
+                isQueued={!!batchProgress && batchProgress.queuedIds.includes(segment.id)}
+                isActive={segment.id === activeSegmentId}
+                onActivate={onActiveSegmentChange}
+                onToggleSelect={onToggleSelect}
+                onOpenSettings={onOpenSettings}
+                glossaryEntries={glossaryEntries}
+                qaFindings={qaFindings.get(segment.id) || []}
+                memoryEntries={memoryEntries}
               />
-            ))}
-          </div>
+            )}
+          />
         </>
       ) : (
         <div className="py-20 text-center border-2 border-dashed border-slate-200 rounded-2xl bg-white">
@@ -58,7 +358,7 @@ export const SegmentList: React.FC<SegmentListProps> = ({
              <FileText className="w-8 h-8 text-slate-300" />
           </div>
           <h3 className="text-lg font-bold text-slate-900">No segments yet</h3>
-          <p className="text-slate-500 max-w-xs mx-auto mt-1">Start by adding a segment to begin your bilingual proofreading session.</p>
+          <p className="text-slate-500 max-w-xs mx-auto mt-1">Start by adding a segment or importing an XLIFF or subtitle file to begin your bilingual proofreading session.</p>
         </div>
       )}
 
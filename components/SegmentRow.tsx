@@ -1,21 +1,70 @@
-import React from 'react';
-import { Trash2, Sparkles, CheckCircle, AlertCircle, Clock, BookOpen } from 'lucide-react';
-import { Segment, SegmentStatus, SegmentCategory } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Trash2, Sparkles, CheckCircle, AlertCircle, Clock, BookOpen, Wand2, History, Database, RefreshCw, X } from 'lucide-react';
+import { Segment, SegmentStatus, SegmentCategory, TextSpan, GlossaryEntry, QaFinding, MemoryEntry, RevisionOrigin, AnalysisError } from '../types';
+import { AnalysisErrorPanel } from './AnalysisErrorPanel';
+import { HighlightedTextarea, TextHighlight, HoverTarget } from './HighlightedTextarea';
+import { IssueChecklist, SEVERITY_STYLES } from './IssueChecklist';
+import { QaFindingsPanel } from './QaFindingsPanel';
+import { MemoryMatchesPanel } from './MemoryMatchesPanel';
+import { SuggestedRevision } from './SuggestedRevision';
+import { HistoryDrawer } from './HistoryDrawer';
+import { BackTranslationPanel } from './BackTranslationPanel';
+import { relocateSpan } from '../services/issueService';
+import { findGlossaryMatches } from '../services/glossaryService';
+import { findFuzzyMatches } from '../services/memoryService';
+import { textDirection, codeForLanguage, fontFamilyFor } from '../services/languageService';
+import { alignWords, hasNoEquivalent, OMISSION_COVERAGE_THRESHOLD } from '../services/alignmentService';
+import { parseMarkup, MarkupKind } from '../services/markupService';
+import { subtitleTiming, formatTimestamp, charactersPerSecond, SUBTITLE_LIMITS } from '../services/subtitleService';
 
 interface SegmentRowProps {
   segment: Segment;
+  sourceLanguage: string;
   targetLanguage: string;
-  onUpdate: (id: string, updates: Partial<Segment>) => void;
+  onUpdate: (id: string, updates: Partial<Segment>, origin?: RevisionOrigin) => void;
   onDelete: (id: string) => void;
-  onRunAnalysis: (id: string) => void;
+  onRunAnalysis: (id: string, force?: boolean) => void;
+  onCancelAnalysis: (id: string) => void;
+  onBackTranslate: (id: string) => Promise<AnalysisError | null>;
+  /** Open the third panel on the back-translation instead of the word mapping. */
+  preferBackTranslation: boolean;
+  isSelected: boolean;
+  isQueued: boolean;
+  isActive: boolean;
+  onActivate: (id: string) => void;
+  onToggleSelect: (id: string) => void;
+  onOpenSettings: () => void;
+  glossaryEntries: GlossaryEntry[];
+  qaFindings: QaFinding[];
+  memoryEntries: MemoryEntry[];
 }
 
+// Placeholders, ICU syntax and tags are painted as chips behind the text.
+const MARKUP_CHIP_STYLES: Record<MarkupKind, string> = {
+  placeholder: 'bg-violet-100 ring-1 ring-violet-200',
+  icu: 'bg-slate-200 ring-1 ring-slate-300',
+  tag: 'bg-teal-100 ring-1 ring-teal-200',
+};
+
 export const SegmentRow: React.FC<SegmentRowProps> = ({
   segment,
+  sourceLanguage,
   targetLanguage,
   onUpdate,
   onDelete,
   onRunAnalysis,
+  onCancelAnalysis,
+  onBackTranslate,
+  preferBackTranslation,
+  isSelected,
+  isQueued,
+  isActive,
+  onActivate,
+  onToggleSelect,
+  onOpenSettings,
+  glossaryEntries,
+  qaFindings,
+  memoryEntries,
 }) => {
   const getStatusStyle = (status: SegmentStatus) => {
     switch (status) {
@@ -33,94 +82,284 @@ export const SegmentRow: React.FC<SegmentRowProps> = ({
     [SegmentStatus.Pending]: Clock,
   }[segment.status];
 
+  const [activeIssue, setActiveIssue] = useState<number | null>(null);
+  const issues = segment.issues || [];
+
+  const issueHighlights = (text: string, side: 'sourceSpan' | 'targetSpan'): TextHighlight[] =>
+    issues.flatMap((issue, idx) => {
+      if (issue.resolved && activeIssue !== idx) return [];
+      const span: TextSpan | null = relocateSpan(text, issue[side]);
+      if (!span) return [];
+      const styles = SEVERITY_STYLES[issue.severity];
+      return [{ start: span.start, end: span.end, className: activeIssue === idx ? styles.activeMark : styles.mark }];
+    });
+
+  const glossaryMatches = useMemo(
+    () => findGlossaryMatches(segment.sourceText, glossaryEntries),
+    [segment.sourceText, glossaryEntries]
+  );
+
+  const [panelTab, setPanelTab] = useState<'mapping' | 'backTranslation' | null>(null);
+  const activeTab = panelTab ?? (preferBackTranslation ? 'backTranslation' : 'mapping');
+  useEffect(() => setPanelTab(null), [preferBackTranslation]);
+
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const history = segment.history || [];
+
+  // Memory lookups only run for the row being edited.
+  const [isEditing, setIsEditing] = useState(false);
+  const memoryMatches = useMemo(
+    () => isEditing
+      ? findFuzzyMatches(segment.sourceText, memoryEntries).filter(match => match.entry.targetText !== segment.targetText.trim())
+      : [],
+    [isEditing, segment.sourceText, segment.targetText, memoryEntries]
+  );
+
+  // A mapping still streaming in would flag most of the segment, so alignment waits for the check to finish.
+  const alignment = useMemo(
+    () => segment.wordBreakdown?.length && !segment.isAnalyzing
+      ? alignWords(segment.sourceText, segment.targetText, segment.wordBreakdown)
+      : null,
+    [segment.sourceText, segment.targetText, segment.wordBreakdown, segment.isAnalyzing]
+  );
+  const [hoveredLink, setHoveredLink] = useState<number | null>(null);
+  const hovered = alignment && hoveredLink !== null ? alignment.links[hoveredLink] : null;
+  const suggestOmission = !!alignment && alignment.coverage < OMISSION_COVERAGE_THRESHOLD && segment.category !== SegmentCategory.Omission;
+
+  const timing = subtitleTiming(segment);
+  const cps = timing ? charactersPerSecond(segment.targetText, timing) : 0;
+  const sourceMarkup = useMemo(() => parseMarkup(segment.sourceText).tokens, [segment.sourceText]);
+  const targetMarkup = useMemo(() => parseMarkup(segment.targetText).tokens, [segment.targetText]);
+  const markupChips = (tokens: typeof sourceMarkup): TextHighlight[] =>
+    tokens.map(({ start, end, kind }) => ({ start, end, className: MARKUP_CHIP_STYLES[kind] }));
+
+  const hoverTargets = (side: 'sourceSpans' | 'targetSpans'): HoverTarget[] =>
+    (alignment?.links || []).flatMap(link => link[side].map(({ start, end }) => ({ id: link.index, start, end })));
+
+  // The hovered link comes first so it wins over other highlights starting at the same word.
+  const sourceHighlights: TextHighlight[] = [
+    ...(hovered?.sourceSpans || []).map(({ start, end }) => ({ start, end, className: 'bg-amber-200' })),
+    ...issueHighlights(segment.sourceText, 'sourceSpan'),
+    ...glossaryMatches.map(({ span }) => ({ start: span.start, end: span.end, className: 'bg-sky-100' })),
+    ...(alignment?.omissions || []).map(({ start, end }) => ({ start, end, className: 'underline decoration-dotted decoration-2 decoration-orange-500' })),
+    ...markupChips(sourceMarkup),
+  ];
+  const targetHighlights: TextHighlight[] = [
+    ...(hovered?.targetSpans || []).map(({ start, end }) => ({ start, end, className: 'bg-amber-200' })),
+    ...issueHighlights(segment.targetText, 'targetSpan'),
+    ...qaFindings.flatMap(f => f.targetSpan ? [{ start: f.targetSpan.start, end: f.targetSpan.end, className: 'bg-rose-100' }] : []),
+    ...(alignment?.additions || []).map(({ start, end }) => ({ start, end, className: 'underline decoration-dotted decoration-2 decoration-violet-500' })),
+    ...markupChips(targetMarkup),
+  ];
+
+  const toggleIssueResolved = (index: number) => {
+    onUpdate(segment.id, {
+      issues: issues.map((issue, idx) => idx === index ? { ...issue, resolved: !issue.resolved } : issue),
+    });
+  };
+
   return (
-    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden transition-all duration-200 animate-slideIn mb-10 group">
+    <div
+      id={`segment-${segment.id}`}
+      className={`bg-white rounded-xl shadow-sm border overflow-hidden transition-all duration-200 group ${
+        isActive ? 'border-indigo-400 ring-2 ring-indigo-200' : 'border-slate-200'
+      }`}
+      onFocus={() => {
+        setIsEditing(true);
+        onActivate(segment.id);
+      }}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsEditing(false);
+      }}
+    >
       
       {/* 3-Panel Main Comparison Layout */}
       <div className="grid grid-cols-1 lg:grid-cols-3 divide-y lg:divide-y-0 lg:divide-x divide-slate-100 min-h-[260px]">
         
         {/* Panel 1: Source */}
         <div className="p-6 flex flex-col">
-          <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.15em] mb-4">
-            1. English Source
-          </label>
-          <textarea
-            className="flex-1 w-full text-[15px] text-slate-800 bg-transparent border-none focus:ring-0 outline-none resize-none leading-relaxed placeholder-slate-300 font-medium"
-            placeholder="Type English source text..."
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.15em]">
+              1. {sourceLanguage} Source
+            </label>
+            {timing && (
+              <span className="text-[10px] font-mono font-bold text-slate-400" title="Cue timing">
+                {formatTimestamp(timing.start, timing.format)} → {formatTimestamp(timing.end, timing.format)} · {((timing.end - timing.start) / 1000).toFixed(1)} s
+              </span>
+            )}
+          </div>
+          <HighlightedTextarea
+            placeholder={`Type ${sourceLanguage} source text...`}
             value={segment.sourceText}
-            onChange={(e) => onUpdate(segment.id, { sourceText: e.target.value })}
+            onChange={(value) => onUpdate(segment.id, { sourceText: value })}
+            name="sourceText"
+            highlights={sourceHighlights}
+            hoverTargets={hoverTargets('sourceSpans')}
+            onHoverTarget={setHoveredLink}
+            protectedSpans={sourceMarkup}
+            dir={textDirection(sourceLanguage)}
+            lang={codeForLanguage(sourceLanguage)}
+            fontFamily={fontFamilyFor(sourceLanguage)}
           />
         </div>
 
         {/* Panel 2: Target */}
         <div className="p-6 flex flex-col border-l border-slate-100">
-          <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.15em] mb-4">
-            2. {targetLanguage} Translation
-          </label>
-          <textarea
-            className="flex-1 w-full text-[15px] text-slate-800 bg-transparent border-none focus:ring-0 outline-none resize-none leading-relaxed placeholder-slate-300 font-medium"
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.15em]">
+              2. {targetLanguage} Translation
+            </label>
+            {timing && segment.targetText.trim() && (
+              <span
+                title={`Reading speed; the limit is ${SUBTITLE_LIMITS.maxCharsPerSecond} characters per second`}
+                className={`text-[10px] font-mono font-bold ${
+                  cps > SUBTITLE_LIMITS.maxCharsPerSecond ? 'text-orange-600' : 'text-slate-400'
+                }`}
+              >
+                {cps.toFixed(1)} cps
+              </span>
+            )}
+          </div>
+          <HighlightedTextarea
             placeholder={`Enter ${targetLanguage} translation...`}
             value={segment.targetText}
-            onChange={(e) => onUpdate(segment.id, { targetText: e.target.value })}
-            dir={['Arabic', 'Urdu', 'Persian', 'Hebrew'].includes(targetLanguage) ? 'rtl' : 'ltr'}
+            onChange={(value) => onUpdate(segment.id, { targetText: value })}
+            name="targetText"
+            highlights={targetHighlights}
+            hoverTargets={hoverTargets('targetSpans')}
+            onHoverTarget={setHoveredLink}
+            protectedSpans={targetMarkup}
+            dir={textDirection(targetLanguage)}
+            lang={codeForLanguage(targetLanguage)}
+            fontFamily={fontFamilyFor(targetLanguage)}
           />
         </div>
 
-        {/* Panel 3: Breakdown */}
+        {/* Panel 3: Breakdown or back-translation */}
         <div className="p-6 flex flex-col bg-slate-50/20">
           <div className="flex items-center justify-between mb-4">
-            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.15em]">
-              3. Word by Word Mapping
-            </label>
-            <div className="text-[10px] font-black text-emerald-600 flex items-center gap-1.5 uppercase tracking-tighter">
-               <BookOpen className="w-3.5 h-3.5" /> Auto-Generated
+            <div className="flex items-center gap-3">
+              {([['mapping', '3. Word by Word Mapping'], ['backTranslation', 'Back-translation']] as const).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  onClick={() => setPanelTab(tab)}
+                  className={`text-[10px] font-black uppercase tracking-[0.15em] transition-colors ${
+                    activeTab === tab ? 'text-slate-600' : 'text-slate-300 hover:text-slate-500'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
+            {activeTab === 'mapping' && (alignment ? (
+              <div
+                title="Share of source words the mapping accounts for"
+                className={`text-[10px] font-black flex items-center gap-1.5 uppercase tracking-tighter ${
+                  alignment.coverage < OMISSION_COVERAGE_THRESHOLD ? 'text-orange-600' : 'text-emerald-600'
+                }`}
+              >
+                 <BookOpen className="w-3.5 h-3.5" /> {Math.round(alignment.coverage * 100)}% mapped
+              </div>
+            ) : (
+              <div className="text-[10px] font-black text-emerald-600 flex items-center gap-1.5 uppercase tracking-tighter">
+                 <BookOpen className="w-3.5 h-3.5" /> Auto-Generated
+              </div>
+            ))}
           </div>
           
-          <div className="flex-1 border border-slate-200 rounded-xl bg-white overflow-hidden shadow-inner flex flex-col min-h-[150px]">
-            <div className="overflow-y-auto max-h-[200px] custom-scrollbar h-full">
-              {segment.wordBreakdown && segment.wordBreakdown.length > 0 ? (
-                <table className="w-full text-left text-[11px] border-collapse bg-white">
-                  <thead className="sticky top-0 bg-white border-b border-slate-200 shadow-sm z-10">
-                    <tr>
-                      <th className="px-3 py-3 font-bold text-slate-400 uppercase tracking-tight">TARGET</th>
-                      <th className="px-3 py-3 font-bold text-slate-400 uppercase tracking-tight">SOURCE</th>
-                      <th className="px-3 py-3 font-bold text-slate-400 uppercase tracking-tight">ROLE</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-slate-50">
-                    {segment.wordBreakdown.map((item, idx) => (
-                      <tr 
-                        key={idx} 
-                        className="hover:bg-indigo-50 transition-all duration-150 cursor-default"
-                      >
-                        <td className="px-3 py-3 font-bold text-slate-900">{item.targetWord}</td>
-                        <td className="px-3 py-3 text-slate-700 font-medium">{item.sourceEquivalent}</td>
-                        <td className="px-3 py-3 text-slate-500 italic leading-snug">{item.context}</td>
+          {activeTab === 'backTranslation' ? (
+            <BackTranslationPanel segment={segment} onBackTranslate={onBackTranslate} />
+          ) : (
+            <div className="flex-1 border border-slate-200 rounded-xl bg-white overflow-hidden shadow-inner flex flex-col min-h-[150px]">
+              <div className="overflow-y-auto max-h-[200px] custom-scrollbar h-full">
+                {segment.wordBreakdown && segment.wordBreakdown.length > 0 ? (
+                  <table className="w-full text-left text-[11px] border-collapse bg-white">
+                    <thead className="sticky top-0 bg-white border-b border-slate-200 shadow-sm z-10">
+                      <tr>
+                        <th className="px-3 py-3 font-bold text-slate-400 uppercase tracking-tight">TARGET</th>
+                        <th className="px-3 py-3 font-bold text-slate-400 uppercase tracking-tight">SOURCE</th>
+                        <th className="px-3 py-3 font-bold text-slate-400 uppercase tracking-tight">ROLE</th>
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
-              ) : (
-                <div className="h-full flex flex-col items-center justify-center p-8 text-slate-300 bg-white">
-                   <div className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">Empty</div>
-                   <p className="text-[9px] text-center mt-2 opacity-50 font-bold uppercase leading-relaxed">
-                     {segment.isAnalyzing ? "Processing Mapping..." : "Run check to see breakdown"}
-                   </p>
+                    </thead>
+                    <tbody className="divide-y divide-slate-50">
+                      {segment.wordBreakdown.map((item, idx) => (
+                        <tr 
+                          key={idx} 
+                          onMouseEnter={() => setHoveredLink(idx)}
+                          onMouseLeave={() => setHoveredLink(null)}
+                          className={`transition-all duration-150 cursor-default ${hoveredLink === idx ? 'bg-amber-50' : 'hover:bg-indigo-50'}`}
+                        >
+                          <td className="px-3 py-3 font-bold text-slate-900" style={{ fontFamily: fontFamilyFor(targetLanguage) }}>{item.targetWord}</td>
+                          <td className="px-3 py-3 text-slate-700 font-medium">
+                            {hasNoEquivalent(item)
+                              ? <span className="text-violet-600 font-bold italic">added</span>
+                              : item.sourceEquivalent}
+                          </td>
+                          <td className="px-3 py-3 text-slate-500 italic leading-snug">{item.context}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div className="h-full flex flex-col items-center justify-center p-8 text-slate-300 bg-white">
+                     <div className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">Empty</div>
+                     <p className="text-[9px] text-center mt-2 opacity-50 font-bold uppercase leading-relaxed">
+                       {segment.isAnalyzing ? "Processing Mapping..." : "Run check to see breakdown"}
+                     </p>
+                  </div>
+                )}
+              </div>
+              {alignment && (alignment.omissions.length > 0 || alignment.additions.length > 0) && (
+                <div className="border-t border-slate-100 px-3 py-2 space-y-1 text-[10px] leading-snug">
+                  {alignment.omissions.length > 0 && (
+                    <p className="text-orange-700">
+                      <span className="font-black uppercase tracking-wider">Likely omitted:</span> {alignment.omissions.map(span => span.text).join(', ')}
+                    </p>
+                  )}
+                  {alignment.additions.length > 0 && (
+                    <p className="text-violet-700">
+                      <span className="font-black uppercase tracking-wider">Likely added:</span> {alignment.additions.map(span => span.text).join(', ')}
+                    </p>
+                  )}
                 </div>
               )}
             </div>
-          </div>
+          )}
         </div>
       </div>
 
       {/* Control Strip */}
       <div className="bg-slate-50 border-t border-slate-100 p-4 flex flex-wrap items-center justify-between gap-6">
         <div className="flex items-center gap-6">
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={() => onToggleSelect(segment.id)}
+            title="Include in batch check"
+            className="w-4 h-4 accent-indigo-600 cursor-pointer"
+          />
           <div className={`flex items-center gap-2.5 px-4 py-1.5 rounded-xl text-xs font-bold border transition-all shadow-sm ${getStatusStyle(segment.status)}`}>
             <StatusIcon className="w-4 h-4" />
-            {segment.status}
+            <select
+              value={segment.status}
+              onChange={(e) => onUpdate(segment.id, { status: e.target.value as SegmentStatus })}
+              className="bg-transparent font-bold outline-none cursor-pointer"
+            >
+              {Object.values(SegmentStatus).map((status) => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
           </div>
+          {segment.aiRevised && (
+            <div className="flex items-center gap-1.5 text-[10px] font-black text-violet-600 uppercase tracking-widest" title="Target includes accepted AI suggestions">
+              <Wand2 className="w-3.5 h-3.5" /> AI-Revised
+            </div>
+          )}
+          {isQueued && (
+            <div className="flex items-center gap-1.5 text-[10px] font-black text-amber-600 uppercase tracking-widest">
+              <Clock className="w-3.5 h-3.5" /> Queued
+            </div>
+          )}
 
           <div className="flex items-center gap-3">
             <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Category:</span>
@@ -133,6 +372,15 @@ export const SegmentRow: React.FC<SegmentRowProps> = ({
                 <option key={cat} value={cat}>{cat}</option>
               ))}
             </select>
+            {suggestOmission && (
+              <button
+                onClick={() => onUpdate(segment.id, { category: SegmentCategory.Omission })}
+                title={`The word mapping covers only ${Math.round(alignment!.coverage * 100)}% of the source words`}
+                className="px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest text-orange-700 bg-orange-50 border border-orange-200 hover:bg-orange-100"
+              >
+                Suggest: Omission
+              </button>
+            )}
           </div>
         </div>
 
@@ -159,6 +407,27 @@ export const SegmentRow: React.FC<SegmentRowProps> = ({
                 )}
             </button>
 
+            {segment.isAnalyzing && (
+                <button
+                    onClick={() => onCancelAnalysis(segment.id)}
+                    className="flex items-center gap-1.5 px-4 py-3 rounded-xl text-xs font-black text-rose-600 bg-rose-50 hover:bg-rose-100 uppercase tracking-widest transition-colors"
+                >
+                    <X className="w-4 h-4" /> Cancel
+                </button>
+            )}
+
+            <button
+                onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                disabled={history.length === 0}
+                title="Revision history"
+                className={`flex items-center gap-1.5 p-2.5 rounded-xl text-xs font-bold transition-colors disabled:opacity-30 ${
+                  isHistoryOpen ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'
+                }`}
+            >
+                <History className="w-5 h-5" />
+                {history.length > 0 && history.length}
+            </button>
+
             <button
                 onClick={() => onDelete(segment.id)}
                 className="p-2.5 text-slate-300 hover:text-rose-600 transition-colors rounded-xl hover:bg-rose-50"
@@ -168,19 +437,89 @@ export const SegmentRow: React.FC<SegmentRowProps> = ({
         </div>
       </div>
 
+      {isHistoryOpen && history.length > 0 && (
+        <HistoryDrawer
+          history={history}
+          onRestore={({ targetText, status, category }) => onUpdate(segment.id, { targetText, status, category }, 'restore')}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {memoryMatches.length > 0 && (
+        <MemoryMatchesPanel
+          matches={memoryMatches}
+          sourceLanguage={sourceLanguage}
+          targetLanguage={targetLanguage}
+          onInsert={(targetText) => onUpdate(segment.id, { targetText })}
+        />
+      )}
+
+      {qaFindings.length > 0 && <QaFindingsPanel findings={qaFindings} />}
+
+      {segment.analysisError && (
+        <AnalysisErrorPanel
+          error={segment.analysisError}
+          onRetry={() => onRunAnalysis(segment.id)}
+          onOpenSettings={onOpenSettings}
+          onDismiss={() => onUpdate(segment.id, { analysisError: null })}
+        />
+      )}
+
       {segment.aiFeedback && (
-        <div className={`p-8 border-t border-slate-100 animate-fadeIn ${segment.aiFeedback.includes("429") ? 'bg-rose-50' : 'bg-indigo-50/30'}`}>
+        <div className="p-8 border-t border-slate-100 animate-fadeIn bg-indigo-50/30">
             <div className="flex items-start gap-5">
-                <div className={`mt-1 p-2.5 rounded-2xl shadow-xl ${segment.aiFeedback.includes("429") ? 'bg-rose-600' : 'bg-indigo-600'}`}>
-                    {segment.aiFeedback.includes("429") ? <Clock className="w-4 h-4 text-white" /> : <Sparkles className="w-4 h-4 text-white" />}
+                <div className="mt-1 p-2.5 rounded-2xl shadow-xl bg-indigo-600">
+                    <Sparkles className="w-4 h-4 text-white" />
                 </div>
                 <div className="flex-1">
-                    <h4 className={`text-[11px] font-black mb-4 uppercase tracking-[0.2em] border-b pb-2 ${segment.aiFeedback.includes("429") ? 'text-rose-900 border-rose-200' : 'text-indigo-900 border-indigo-100'}`}>
-                        {segment.aiFeedback.includes("429") ? 'System Alert: Quota Limit' : 'Semantic Audit Results'}
+                    <h4 className="flex items-center gap-3 text-[11px] font-black mb-4 uppercase tracking-[0.2em] border-b pb-2 text-indigo-900 border-indigo-100">
+                        Semantic Audit Results
+                        {segment.promptVersion != null && (
+                            <span
+                                title={`Produced with audit prompt template v${segment.promptVersion}`}
+                                className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-500 text-[9px] tracking-widest"
+                            >
+                                Prompt v{segment.promptVersion}
+                            </span>
+                        )}
+                        {segment.cachedAt && (
+                            <span
+                                title={`Served from the analysis cache; produced ${new Date(segment.cachedAt).toLocaleString()}`}
+                                className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 text-[9px] tracking-widest"
+                            >
+                                <Database className="w-3 h-3" /> Cached
+                            </span>
+                        )}
+                        {segment.cachedAt && (
+                            <button
+                                onClick={() => onRunAnalysis(segment.id, true)}
+                                disabled={segment.isAnalyzing}
+                                className="ml-auto flex items-center gap-1 text-[9px] tracking-widest text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                            >
+                                <RefreshCw className="w-3 h-3" /> Force re-check
+                            </button>
+                        )}
                     </h4>
-                    <div className={`text-sm leading-relaxed whitespace-pre-line font-medium ${segment.aiFeedback.includes("429") ? 'text-rose-800' : 'text-slate-700'}`}>
+                    <div className="text-sm leading-relaxed whitespace-pre-line font-medium text-slate-700">
                         {segment.aiFeedback}
+                        {segment.isAnalyzing && <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-indigo-400 animate-pulse" />}
                     </div>
+                    {segment.suggestedTarget && (
+                        <SuggestedRevision
+                            targetText={segment.targetText}
+                            suggestedTarget={segment.suggestedTarget}
+                            onApply={(targetText, suggestedTarget) => onUpdate(segment.id, { targetText, suggestedTarget, aiRevised: true }, 'suggestion')}
+                            onDismiss={() => onUpdate(segment.id, { suggestedTarget: null })}
+                        />
+                    )}
+                    {issues.length > 0 && (
+                        <IssueChecklist
+                            issues={issues}
+                            activeIndex={activeIssue}
+                            onHover={setActiveIssue}
+                            onToggleResolved={toggleIssueResolved}
+                        />
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,143 @@
+import React from 'react';
+import { Search, Replace, X, Keyboard, LayoutList, Rows3, Languages } from 'lucide-react';
+import { SegmentFilter, SegmentSort, SegmentStatus, SegmentCategory, SegmentLayout } from '../types';
+import { EMPTY_FILTER, isFilterActive } from '../services/searchService';
+
+interface SegmentToolbarProps {
+  filter: SegmentFilter;
+  onFilterChange: (filter: SegmentFilter) => void;
+  sort: SegmentSort;
+  onSortChange: (sort: SegmentSort) => void;
+  visibleCount: number;
+  totalCount: number;
+  onOpenReplace: () => void;
+  layout: SegmentLayout;
+  onLayoutChange: (layout: SegmentLayout) => void;
+  isReviewMode: boolean;
+  onReviewModeChange: (isReviewMode: boolean) => void;
+  isBackTranslationMode: boolean;
+  onBackTranslationModeChange: (isBackTranslationMode: boolean) => void;
+}
+
+const SORT_LABELS: Record<SegmentSort, string> = {
+  original: 'File order',
+  status: 'Status',
+  sourceLength: 'Longest source',
+  targetLength: 'Longest target',
+};
+
+const REVIEW_KEYS: Array<[string, string]> = [
+  ['J / K', 'next / previous'],
+  ['Enter', 'check'],
+  ['A', 'approve'],
+  ['N', 'needs work'],
+  ['C / ⇧C', 'cycle category'],
+  ['B', 'back-translate'],
+  ['E', 'edit target'],
+  ['Esc', 'stop editing'],
+];
+
+const selectClass = 'bg-white border border-slate-200 text-slate-600 text-xs font-bold rounded-lg py-1.5 px-2 outline-none cursor-pointer';
+
+export const SegmentToolbar: React.FC<SegmentToolbarProps> = ({
+  filter,
+  onFilterChange,
+  sort,
+  onSortChange,
+  visibleCount,
+  totalCount,
+  onOpenReplace,
+  layout,
+  onLayoutChange,
+  isReviewMode,
+  onReviewModeChange,
+  isBackTranslationMode,
+  onBackTranslationModeChange,
+}) => {
+  const update = (updates: Partial<SegmentFilter>) => onFilterChange({ ...filter, ...updates });
+  const toggleClass = (active: boolean) =>
+    `px-2.5 py-1.5 rounded-lg border text-xs font-bold transition-colors ${
+      active ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-500 hover:border-slate-300'
+    }`;
+
+  return (
+    <div className="mb-6 bg-white rounded-xl border border-slate-200 shadow-sm p-3 flex flex-wrap items-center gap-3">
+      <div className="flex items-center gap-2 flex-1 min-w-[200px] px-3 py-1.5 border border-slate-200 rounded-lg">
+        <Search className="w-4 h-4 text-slate-400" />
+        <input
+          value={filter.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Search source, target or feedback..."
+          className="flex-1 text-sm outline-none"
+        />
+      </div>
+
+      <select value={filter.status} onChange={(e) => update({ status: e.target.value as SegmentFilter['status'] })} className={selectClass}>
+        <option value="all">All statuses</option>
+        {Object.values(SegmentStatus).map(status => <option key={status} value={status}>{status}</option>)}
+      </select>
+
+      <select value={filter.category} onChange={(e) => update({ category: e.target.value as SegmentFilter['category'] })} className={selectClass}>
+        <option value="all">All categories</option>
+        {Object.values(SegmentCategory).map(category => <option key={category} value={category}>{category}</option>)}
+      </select>
+
+      <button onClick={() => update({ hasFeedback: !filter.hasFeedback })} className={toggleClass(filter.hasFeedback)}>
+        Has feedback
+      </button>
+      <button onClick={() => update({ failed: !filter.failed })} className={toggleClass(filter.failed)}>
+        Analysis failed
+      </button>
+
+      <select value={sort} onChange={(e) => onSortChange(e.target.value as SegmentSort)} className={selectClass} title="Sort by">
+        {(Object.keys(SORT_LABELS) as SegmentSort[]).map(key => <option key={key} value={key}>Sort: {SORT_LABELS[key]}</option>)}
+      </select>
+
+      <button
+        onClick={onOpenReplace}
+        className="px-2.5 py-1.5 rounded-lg border border-slate-200 text-xs font-bold text-slate-600 hover:border-indigo-200 hover:text-indigo-700 flex items-center gap-1.5"
+      >
+        <Replace className="w-3.5 h-3.5" /> Find & Replace
+      </button>
+
+      <button
+        onClick={() => onLayoutChange(layout === 'cards' ? 'compact' : 'cards')}
+        title={layout === 'cards' ? 'Switch to compact table' : 'Switch to full cards'}
+        className={toggleClass(layout === 'compact')}
+      >
+        {layout === 'cards' ? <Rows3 className="w-3.5 h-3.5" /> : <LayoutList className="w-3.5 h-3.5" />}
+      </button>
+
+      <button onClick={() => onReviewModeChange(!isReviewMode)} className={`${toggleClass(isReviewMode)} flex items-center gap-1.5`}>
+        <Keyboard className="w-3.5 h-3.5" /> Review mode
+      </button>
+
+      <button
+        onClick={() => onBackTranslationModeChange(!isBackTranslationMode)}
+        title="Show literal back-translations instead of the word mapping"
+        className={`${toggleClass(isBackTranslationMode)} flex items-center gap-1.5`}
+      >
+        <Languages className="w-3.5 h-3.5" /> Back-translation
+      </button>
+
+      {isFilterActive(filter) && (
+        <div className="flex items-center gap-2 text-xs font-bold text-slate-400">
+          Showing {visibleCount} of {totalCount}
+          <button onClick={() => onFilterChange(EMPTY_FILTER)} className="text-slate-300 hover:text-slate-600" title="Clear filters">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {isReviewMode && (
+        <div className="w-full flex flex-wrap gap-x-4 gap-y-1 pt-2 border-t border-slate-100 text-[11px] text-slate-500">
+          {REVIEW_KEYS.map(([keys, action]) => (
+            <span key={keys}>
+              <kbd className="px-1.5 py-0.5 rounded border border-slate-200 bg-slate-50 font-mono text-[10px] text-slate-700">{keys}</kbd> {action}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
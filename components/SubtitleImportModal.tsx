@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import { Captions, X, FileUp } from 'lucide-react';
+import { CueAlignment } from '../services/subtitleService';
+
+interface SubtitleImportModalProps {
+  sourceFile: File | null;
+  onImport: (sourceFile: File, translationFile: File | null, alignment: CueAlignment) => void;
+  onClose: () => void;
+}
+
+const ALIGNMENTS: Array<{ id: CueAlignment; label: string; description: string }> = [
+  { id: 'timing', label: 'By timecode', description: 'Pair cues whose times overlap. Handles cues that were split or merged in translation.' },
+  { id: 'index', label: 'By cue index', description: 'Pair the first cue with the first, the second with the second, and so on.' },
+];
+
+export const SubtitleImportModal: React.FC<SubtitleImportModalProps> = ({ sourceFile, onImport, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [translationFile, setTranslationFile] = useState<File | null>(null);
+  const [alignment, setAlignment] = useState<CueAlignment>('timing');
+
+  if (!sourceFile) return null;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setTranslationFile(e.target.files?.[0] || null);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg overflow-hidden">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div className="flex items-center gap-2 text-indigo-700">
+            <Captions className="w-5 h-5" />
+            <h3 className="font-bold">Import Subtitles</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="text-xs text-slate-500 font-medium break-all">
+            <span className="font-black uppercase tracking-widest text-slate-400">Source</span> · {sourceFile.name}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-slate-600">
+              Add the translated subtitle file to review it against the source, or import the source alone to translate from scratch.
+            </p>
+            <input ref={fileInputRef} type="file" accept=".srt,.vtt" className="hidden" onChange={handleFileChange} />
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 flex items-center gap-1.5 shrink-0"
+              >
+                <FileUp className="w-3.5 h-3.5" /> {translationFile ? 'Change translation' : 'Add translation'}
+              </button>
+              {translationFile && (
+                <span className="text-xs text-slate-500 font-medium break-all flex items-center gap-1">
+                  {translationFile.name}
+                  <button onClick={() => setTranslationFile(null)} title="Remove" className="text-slate-300 hover:text-rose-600">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              )}
+            </div>
+          </div>
+
+          {translationFile && (
+            <div className="space-y-2">
+              {ALIGNMENTS.map(option => (
+                <label
+                  key={option.id}
+                  className={`flex gap-3 p-3 rounded-lg border cursor-pointer ${alignment === option.id ? 'border-indigo-300 bg-indigo-50/60' : 'border-slate-200 hover:bg-slate-50'}`}
+                >
+                  <input type="radio" name="cue-alignment" checked={alignment === option.id} onChange={() => setAlignment(option.id)} className="mt-1" />
+                  <span>
+                    <span className="block text-sm font-bold text-slate-800">{option.label}</span>
+                    <span className="block text-xs text-slate-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="pt-2 flex gap-2">
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-bold hover:bg-gray-200 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onImport(sourceFile, translationFile, alignment)}
+              className="flex-1 bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 shadow-sm transition-all"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
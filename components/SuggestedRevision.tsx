@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { Wand2, Check, CheckCheck, X } from 'lucide-react';
+import { revisionParts, applyRevision } from '../services/diffService';
+
+interface SuggestedRevisionProps {
+  targetText: string;
+  suggestedTarget: string;
+  onApply: (targetText: string, remainingSuggestion: string | null) => void;
+  onDismiss: () => void;
+}
+
+export const SuggestedRevision: React.FC<SuggestedRevisionProps> = ({ targetText, suggestedTarget, onApply, onDismiss }) => {
+  const parts = useMemo(() => revisionParts(targetText, suggestedTarget), [targetText, suggestedTarget]);
+  const changeCount = parts.filter(part => part.type === 'change').length;
+
+  // Accepting a hunk keeps the suggestion open until nothing is left to accept.
+  const acceptHunk = (index: number) => {
+    const next = applyRevision(parts, i => i === index);
+    onApply(next, changeCount > 1 ? suggestedTarget : null);
+  };
+
+  let changeIndex = -1;
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h5 className="text-[10px] font-black text-indigo-900 uppercase tracking-[0.2em] flex items-center gap-2">
+          <Wand2 className="w-3.5 h-3.5" />
+          Suggested Revision ({changeCount} change{changeCount === 1 ? '' : 's'})
+        </h5>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onApply(suggestedTarget, null)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest text-white bg-emerald-600 hover:bg-emerald-700"
+          >
+            <CheckCheck className="w-3.5 h-3.5" /> Accept All
+          </button>
+          <button
+            onClick={onDismiss}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest text-slate-500 bg-white border border-slate-200 hover:bg-slate-50"
+          >
+            <X className="w-3.5 h-3.5" /> Dismiss
+          </button>
+        </div>
+      </div>
+      <div className="p-4 rounded-xl border border-slate-100 bg-white text-sm leading-loose text-slate-800 whitespace-pre-wrap">
+        {parts.map((part, idx) => {
+          if (part.type === 'equal') return <span key={idx}>{part.text}</span>;
+          const index = ++changeIndex;
+          return (
+            <span key={idx} className="inline rounded-md bg-slate-50 ring-1 ring-slate-200 px-0.5 mx-0.5">
+              {part.removed && <del className="bg-rose-100 text-rose-700 rounded-sm">{part.removed}</del>}
+              {part.added && <ins className="bg-emerald-100 text-emerald-800 no-underline rounded-sm">{part.added}</ins>}
+              <button
+                onClick={() => acceptHunk(index)}
+                title="Accept this change"
+                className="inline-flex align-middle ml-0.5 p-0.5 rounded text-emerald-600 hover:bg-emerald-100"
+              >
+                <Check className="w-3 h-3" />
+              </button>
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
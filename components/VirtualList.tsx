@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  /** Height used for rows that have not been rendered yet. */
+  estimateHeight: number;
+  /** Vertical space between rows. */
+  gap?: number;
+  /** Extra pixels rendered above and below the viewport. */
+  overscan?: number;
+  /** Row to bring into view whenever it changes. */
+  activeIndex?: number | null;
+  /** Space covered by sticky page chrome at the top of the window. */
+  topInset?: number;
+}
+
+/**
+ * Renders only the rows near the window's viewport. Rows may have any height: each rendered
+ * row is measured and the measurement replaces the estimate, so spacers stay accurate.
+ */
+export const VirtualList = <T,>({
+  items,
+  getKey,
+  renderItem,
+  estimateHeight,
+  gap = 24,
+  overscan = 800,
+  activeIndex = null,
+  topInset = 80,
+}: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const rowsRef = useRef(new Map<string, HTMLDivElement>());
+  const rowRefsRef = useRef(new Map<string, (el: HTMLDivElement | null) => void>());
+  const [range, setRange] = useState({ start: 0, end: Math.min(items.length, 10) });
+  const [, setMeasureVersion] = useState(0);
+
+  const heightOf = useCallback(
+    (item: T) => (heightsRef.current.get(getKey(item)) ?? estimateHeight) + gap,
+    [getKey, estimateHeight, gap]
+  );
+
+  const offsetOf = (index: number) => {
+    let offset = 0;
+    for (let i = 0; i < index; i++) offset += heightOf(items[i]);
+    return offset;
+  };
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = -container.getBoundingClientRect().top - overscan;
+    const bottom = top + window.innerHeight + overscan * 2;
+    let offset = 0;
+    let start = items.length;
+    let end = items.length;
+    for (let i = 0; i < items.length; i++) {
+      const next = offset + heightOf(items[i]);
+      if (start === items.length && next > top) start = i;
+      if (offset > bottom) {
+        end = i;
+        break;
+      }
+      offset = next;
+    }
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [items, heightOf, overscan]);
+
+  useEffect(() => {
+    observerRef.current = new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(entry => {
+        const el = entry.target as HTMLElement;
+        const key = el.dataset.virtualKey;
+        // A row that just left the window reports 0, which would overwrite its real height.
+        if (!el.isConnected || el.offsetHeight === 0) return;
+        if (key && heightsRef.current.get(key) !== el.offsetHeight) {
+          heightsRef.current.set(key, el.offsetHeight);
+          changed = true;
+        }
+      });
+      if (changed) setMeasureVersion(v => v + 1);
+    });
+    // Rows mount before this effect runs, so the ones already there are picked up here.
+    rowsRef.current.forEach(row => observerRef.current?.observe(row));
+    return () => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    };
+  }, []);
+
+  useLayoutEffect(() => {
+    updateRange();
+  });
+
+  useEffect(() => {
+    window.addEventListener('scroll', updateRange, { passive: true });
+    window.addEventListener('resize', updateRange);
+    return () => {
+      window.removeEventListener('scroll', updateRange);
+      window.removeEventListener('resize', updateRange);
+    };
+  }, [updateRange]);
+
+  useEffect(() => {
+    if (activeIndex === null || activeIndex < 0 || activeIndex >= items.length || !containerRef.current) return;
+    const containerTop = containerRef.current.getBoundingClientRect().top + window.scrollY;
+    const rowTop = containerTop + offsetOf(activeIndex);
+    const rowBottom = rowTop + heightOf(items[activeIndex]) - gap;
+    const viewTop = window.scrollY + topInset;
+    const viewBottom = window.scrollY + window.innerHeight;
+    if (rowTop < viewTop || rowBottom > viewBottom) {
+      window.scrollTo({ top: rowTop - topInset });
+    }
+    // Only react to the active row moving, not to every re-measure.
+  }, [activeIndex]);
+
+  // One stable ref callback per row, so React only calls it when the row mounts or unmounts.
+  const measure = (key: string) => {
+    let callback = rowRefsRef.current.get(key);
+    if (!callback) {
+      callback = (el) => {
+        const previous = rowsRef.current.get(key);
+        if (previous) observerRef.current?.unobserve(previous);
+        if (el) {
+          rowsRef.current.set(key, el);
+          observerRef.current?.observe(el);
+        } else {
+          rowsRef.current.delete(key);
+          rowRefsRef.current.delete(key);
+        }
+      };
+      rowRefsRef.current.set(key, callback);
+    }
+    return callback;
+  };
+
+  const start = Math.min(range.start, items.length);
+  const end = Math.min(Math.max(range.end, start), items.length);
+  const paddingTop = offsetOf(start);
+  const paddingBottom = offsetOf(items.length) - offsetOf(end);
+
+  return (
+    <div ref={containerRef} style={{ paddingTop, paddingBottom }}>
+      {items.slice(start, end).map((item, i) => (
+        <div key={getKey(item)} ref={measure(getKey(item))} data-virtual-key={getKey(item)} style={{ paddingBottom: gap }}>
+          {renderItem(item, start + i)}
+        </div>
+      ))}
+    </div>
+  );
+};
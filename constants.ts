@@ -1,12 +1,51 @@
-export const TARGET_LANGUAGES = [
-  "Arabic", "Armenian", "Bassa", "Bengali", "Chichewa", "Chinese (Simplified)", 
-  "Chinese (Traditional Mandarin)", "English", "French", "Georgian", "Haitian Creole", 
-  "Hindi", "Hungarian", "Kazakh", "Kinyarwanda", "Kiswahili", "Kannada", "Luganda", 
-  "Manipuri", "Mongolian", "Nepali", "Oriya (Odia)", "Polish", "Portuguese", 
-  "Punjabi", "Romanian", "Rongmei", "Russian", "Sesotho", "Spanish", "Tagalog", 
-  "Tamil", "Telugu", "Thai", "Turkish", "Ukrainian", "Urdu", "Uzbek"
+import { Locale } from './types';
+
+// Built-in languages. `font` names a Google Fonts family for scripts that system fonts often lack;
+// plural and number conventions come from Intl for the code unless a locale overrides them.
+export const LOCALES: Locale[] = [
+  { name: "Arabic", code: "ar", script: "Arab", direction: "rtl", font: "Noto Naskh Arabic" },
+  { name: "Armenian", code: "hy", script: "Armn", direction: "ltr", font: "Noto Sans Armenian" },
+  { name: "Bassa", code: "bsq", script: "Latn", direction: "ltr", lowResource: true },
+  { name: "Bengali", code: "bn", script: "Beng", direction: "ltr", font: "Noto Sans Bengali" },
+  { name: "Chichewa", code: "ny", script: "Latn", direction: "ltr", lowResource: true },
+  { name: "Chinese (Simplified)", code: "zh-Hans", script: "Hans", direction: "ltr", font: "Noto Sans SC" },
+  { name: "Chinese (Traditional Mandarin)", code: "zh-Hant", script: "Hant", direction: "ltr", font: "Noto Sans TC" },
+  { name: "English", code: "en", script: "Latn", direction: "ltr" },
+  { name: "French", code: "fr", script: "Latn", direction: "ltr" },
+  { name: "Georgian", code: "ka", script: "Geor", direction: "ltr", font: "Noto Sans Georgian" },
+  { name: "Haitian Creole", code: "ht", script: "Latn", direction: "ltr", lowResource: true },
+  { name: "Hindi", code: "hi", script: "Deva", direction: "ltr", font: "Noto Sans Devanagari" },
+  { name: "Hungarian", code: "hu", script: "Latn", direction: "ltr" },
+  { name: "Kazakh", code: "kk", script: "Cyrl", direction: "ltr" },
+  { name: "Kinyarwanda", code: "rw", script: "Latn", direction: "ltr", lowResource: true },
+  { name: "Kiswahili", code: "sw", script: "Latn", direction: "ltr" },
+  { name: "Kannada", code: "kn", script: "Knda", direction: "ltr", font: "Noto Sans Kannada" },
+  { name: "Luganda", code: "lg", script: "Latn", direction: "ltr", lowResource: true },
+  { name: "Manipuri", code: "mni", script: "Mtei", direction: "ltr", font: "Noto Sans Meetei Mayek", lowResource: true },
+  { name: "Mongolian", code: "mn", script: "Cyrl", direction: "ltr" },
+  { name: "Nepali", code: "ne", script: "Deva", direction: "ltr", font: "Noto Sans Devanagari" },
+  { name: "Oriya (Odia)", code: "or", script: "Orya", direction: "ltr", font: "Noto Sans Oriya" },
+  { name: "Polish", code: "pl", script: "Latn", direction: "ltr" },
+  { name: "Portuguese", code: "pt", script: "Latn", direction: "ltr" },
+  { name: "Punjabi", code: "pa", script: "Guru", direction: "ltr", font: "Noto Sans Gurmukhi" },
+  { name: "Romanian", code: "ro", script: "Latn", direction: "ltr" },
+  { name: "Rongmei", code: "nbu", script: "Latn", direction: "ltr", lowResource: true },
+  { name: "Russian", code: "ru", script: "Cyrl", direction: "ltr" },
+  { name: "Sesotho", code: "st", script: "Latn", direction: "ltr", lowResource: true },
+  { name: "Spanish", code: "es", script: "Latn", direction: "ltr" },
+  { name: "Tagalog", code: "tl", script: "Latn", direction: "ltr" },
+  { name: "Tamil", code: "ta", script: "Taml", direction: "ltr", font: "Noto Sans Tamil" },
+  { name: "Telugu", code: "te", script: "Telu", direction: "ltr", font: "Noto Sans Telugu" },
+  { name: "Thai", code: "th", script: "Thai", direction: "ltr", font: "Noto Sans Thai" },
+  { name: "Turkish", code: "tr", script: "Latn", direction: "ltr" },
+  { name: "Ukrainian", code: "uk", script: "Cyrl", direction: "ltr" },
+  { name: "Urdu", code: "ur", script: "Arab", direction: "rtl", font: "Noto Nastaliq Urdu" },
+  { name: "Uzbek", code: "uz", script: "Latn", direction: "ltr" },
 ];
 
+export const DEFAULT_SOURCE_LANGUAGE = "English";
+export const DEFAULT_TARGET_LANGUAGE = "Spanish";
+
 export const DEFAULT_SEGMENTS = [
   {
     id: '1',
@@ -0,0 +1,55 @@
+import { ProviderId, ProviderConfig, AnalysisErrorCode } from '../types';
+
+export interface GenerateJsonRequest {
+  prompt: string;
+  schema: Record<string, unknown>;
+  schemaName: string;
+  signal?: AbortSignal;
+  /** Called with the accumulated response text each time more of it streams in. */
+  onText?: (text: string) => void;
+}
+
+export interface ProviderErrorInfo {
+  status?: number;
+  code?: AnalysisErrorCode;
+  retryAfterMs?: number;
+}
+
+/** Thrown by providers so failures can be classified without parsing message text. */
+export class ProviderError extends Error {
+  status?: number;
+  code?: AnalysisErrorCode;
+  retryAfterMs?: number;
+
+  constructor(message: string, info: ProviderErrorInfo = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = info.status;
+    this.code = info.code;
+    this.retryAfterMs = info.retryAfterMs;
+  }
+}
+
+/** Parses a Retry-After header value (seconds or HTTP date) into milliseconds. */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * A backend able to answer a prompt with JSON matching a schema, streaming the text as it is
+ * generated and stopping when the request's signal aborts. Providers throw a
+ * `ProviderError` on HTTP failures and safety blocks; anything else is classified by the caller.
+ */
+export interface AIProvider {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl: string;
+  suggestedModels: string[];
+  requiresKey: boolean;
+  generateJson: (request: GenerateJsonRequest, config: ProviderConfig) => Promise<string>;
+}
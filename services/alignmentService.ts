@@ -0,0 +1,90 @@
+import { TextSpan, WordBreakdown } from '../types';
+import { wordSpans } from './textUtils';
+import { parseMarkup } from './markupService';
+
+/** Below this share of source words covered by the mapping, the segment is flagged as a likely omission. */
+export const OMISSION_COVERAGE_THRESHOLD = 0.7;
+
+export interface AlignmentLink {
+  /** Index of the WordBreakdown row the link was built from. */
+  index: number;
+  sourceSpans: TextSpan[];
+  targetSpans: TextSpan[];
+}
+
+export interface WordAlignment {
+  links: AlignmentLink[];
+  /** Source words no mapping row accounts for. */
+  omissions: TextSpan[];
+  /** Target words with no mapping row, or mapped to no source word. */
+  additions: TextSpan[];
+  /** Share of source words covered by the mapping, 0–1; 1 when the source has no words. */
+  coverage: number;
+}
+
+// How the model marks a target word with no source counterpart.
+const NO_EQUIVALENT = /^(?:|[-–—∅?]|n\/?a|none|\(none\)|null|\(added\)|added)$/i;
+
+export const hasNoEquivalent = (row: WordBreakdown) => NO_EQUIVALENT.test(row.sourceEquivalent.trim());
+
+// Words inside placeholders, ICU syntax and tags are not translated, so they are never omitted or added.
+const translatableWords = (text: string) => {
+  const markup = parseMarkup(text).tokens;
+  return wordSpans(text).filter(word => !markup.some(token => word.start >= token.start && word.end <= token.end));
+};
+
+const normalize = (word: string) => word.toLocaleLowerCase();
+
+/**
+ * Finds the word run spelling `phrase` in `words`, preferring one that does not reuse words
+ * already claimed by an earlier row, so repeated words map to successive occurrences.
+ */
+const locatePhrase = (phrase: string, words: TextSpan[], claimed: Set<number>): number[] => {
+  const needle = wordSpans(phrase).map(span => normalize(span.text));
+  if (needle.length === 0) return [];
+  let fallback: number[] = [];
+  for (let i = 0; i + needle.length <= words.length; i++) {
+    if (!needle.every((word, offset) => normalize(words[i + offset].text) === word)) continue;
+    const indexes = needle.map((_, offset) => i + offset);
+    if (indexes.every(index => !claimed.has(index))) return indexes;
+    if (fallback.length === 0) fallback = indexes;
+  }
+  if (fallback.length > 0 || needle.length === 1) return fallback;
+  // Phrases the text does not contain verbatim fall back to their individual words.
+  return needle.flatMap(word => {
+    const index = words.findIndex((span, idx) => normalize(span.text) === word && !claimed.has(idx));
+    return index === -1 ? [] : [index];
+  });
+};
+
+/** Ties the mapping rows to word positions in both texts and works out what neither side accounts for. */
+export const alignWords = (sourceText: string, targetText: string, breakdown: WordBreakdown[]): WordAlignment => {
+  const sourceWords = translatableWords(sourceText);
+  const targetWords = translatableWords(targetText);
+  const claimedSource = new Set<number>();
+  const claimedTarget = new Set<number>();
+  const additions: TextSpan[] = [];
+
+  const links = breakdown.map((row, index) => {
+    const targetIndexes = locatePhrase(row.targetWord, targetWords, claimedTarget);
+    targetIndexes.forEach(idx => claimedTarget.add(idx));
+    const targetSpans = targetIndexes.map(idx => targetWords[idx]);
+    if (hasNoEquivalent(row)) {
+      additions.push(...targetSpans);
+      return { index, sourceSpans: [], targetSpans };
+    }
+    const sourceIndexes = locatePhrase(row.sourceEquivalent, sourceWords, claimedSource);
+    sourceIndexes.forEach(idx => claimedSource.add(idx));
+    return { index, sourceSpans: sourceIndexes.map(idx => sourceWords[idx]), targetSpans };
+  });
+
+  additions.push(...targetWords.filter((_, idx) => !claimedTarget.has(idx)));
+  const omissions = sourceWords.filter((_, idx) => !claimedSource.has(idx));
+
+  return {
+    links,
+    omissions,
+    additions: additions.sort((a, b) => a.start - b.start),
+    coverage: sourceWords.length === 0 ? 1 : claimedSource.size / sourceWords.length,
+  };
+};
@@ -0,0 +1,96 @@
+import { AISettings, AnalysisCacheSettings } from '../types';
+import { AnalysisRequest, AnalysisResult, AUDIT_PROMPT_VERSION, buildAuditPrompt, getProvider, resolveProviderConfig } from './analysisService';
+import { getByKey, getAll, putAll, deleteKeys, clearStore, countRecords } from './idb';
+import { isBoolean, isNumber, withValidFields } from './jsonUtils';
+
+export interface CachedAnalysis {
+  key: string;
+  result: AnalysisResult;
+  createdAt: number;
+  lastUsedAt: number;
+  /** Approximate stored size in bytes. */
+  size: number;
+}
+
+export interface AnalysisCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+export const DEFAULT_CACHE_SETTINGS: AnalysisCacheSettings = {
+  enabled: true,
+  maxEntries: 2000,
+  maxAgeDays: 30,
+};
+
+/** Cache settings read back from storage; missing or invalid fields take their defaults. */
+export const toCacheSettings = (value: unknown): AnalysisCacheSettings =>
+  withValidFields(value, DEFAULT_CACHE_SETTINGS, {
+    enabled: isBoolean,
+    maxEntries: (count) => isNumber(count) && count >= 1,
+    maxAgeDays: (days) => isNumber(days) && days >= 0,
+  });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Hash of everything that shapes the audit: the rendered prompt (texts, language pair, glossary,
+ * project instructions and template), the endpoint, the model and the schema version.
+ * Returns null where Web Crypto is unavailable (plain-http origins), which disables caching.
+ */
+export const analysisCacheKey = async (request: AnalysisRequest, settings: AISettings): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const provider = getProvider(settings.provider);
+  const config = resolveProviderConfig(settings);
+  const model = config.model.trim() || provider.defaultModel;
+  // OpenAI-compatible servers may use the same model name for different models.
+  const baseUrl = (config.baseUrl.trim() || provider.defaultBaseUrl).replace(/\/+$/, '');
+  return sha256(JSON.stringify([AUDIT_PROMPT_VERSION, provider.id, baseUrl, model, buildAuditPrompt(request)]));
+};
+
+// The cache only ever saves calls, so storage failures are logged and treated as misses.
+export const readCachedAnalysis = async (key: string): Promise<CachedAnalysis | null> => {
+  try {
+    const entry = await getByKey<CachedAnalysis>('analysisCache', key);
+    if (!entry) return null;
+    putAll('analysisCache', [{ ...entry, lastUsedAt: Date.now() }])
+      .catch(e => console.error("Failed to touch cached analysis", e));
+    return entry;
+  } catch (e) {
+    console.error("Failed to read analysis cache", e);
+    return null;
+  }
+};
+
+export const writeCachedAnalysis = async (key: string, result: AnalysisResult, settings: AnalysisCacheSettings): Promise<void> => {
+  const now = Date.now();
+  const entry: CachedAnalysis = { key, result, createdAt: now, lastUsedAt: now, size: JSON.stringify(result).length * 2 };
+  try {
+    await putAll('analysisCache', [entry]);
+    if (await countRecords('analysisCache') > settings.maxEntries) await evictAnalyses(settings);
+  } catch (e) {
+    console.error("Failed to write analysis cache", e);
+  }
+};
+
+/** Drops entries past the age limit, then the least recently used ones until the size limit is met. Returns how many were removed. */
+export const evictAnalyses = async (settings: AnalysisCacheSettings): Promise<number> => {
+  const entries = await getAll<CachedAnalysis>('analysisCache');
+  const cutoff = settings.maxAgeDays > 0 ? Date.now() - settings.maxAgeDays * DAY_MS : -Infinity;
+  const byRecency = [...entries].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  const stale = byRecency.filter((entry, index) => entry.lastUsedAt < cutoff || index >= settings.maxEntries);
+  await deleteKeys('analysisCache', stale.map(entry => entry.key));
+  return stale.length;
+};
+
+export const getAnalysisCacheStats = async (): Promise<AnalysisCacheStats> => {
+  const entries = await getAll<CachedAnalysis>('analysisCache');
+  return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+};
+
+export const clearAnalysisCache = (): Promise<void> => clearStore('analysisCache');
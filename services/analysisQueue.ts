@@ -0,0 +1,186 @@
+import { BatchSettings, BatchProgress, AnalysisError } from '../types';
+import { isNumber, withValidFields } from './jsonUtils';
+
+export interface QueueTaskResult {
+  outcome: 'done' | 'failed' | 'retry';
+  retryAfterMs?: number;
+  /** Why a retry is needed; handed to `onGiveUp` when the item runs out of retries. */
+  error?: AnalysisError;
+  /** Served without calling the provider. */
+  cached?: boolean;
+}
+
+export interface AnalysisQueueOptions {
+  settings: BatchSettings;
+  worker: (id: string) => Promise<QueueTaskResult>;
+  onProgress: (progress: BatchProgress) => void;
+  /** Called for an item that still needed a retry after MAX_REQUEUES attempts and now counts as failed. */
+  onGiveUp?: (id: string, result: QueueTaskResult) => void;
+}
+
+export interface AnalysisQueue {
+  start: (ids: string[]) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  updateSettings: (settings: BatchSettings) => void;
+}
+
+// Free-tier quotas are per minute, so without a server hint a 429 pauses dispatching for a full window.
+const QUOTA_COOLDOWN_MS = 60000;
+const MAX_REQUEUES = 5;
+
+export const DEFAULT_BATCH_SETTINGS: BatchSettings = {
+  concurrency: 2,
+  requestsPerMinute: 10,
+};
+
+const atLeastOne = (value: unknown) => isNumber(value) && value >= 1;
+
+/** Batch settings read back from storage; missing or invalid fields take their defaults. */
+export const toBatchSettings = (value: unknown): BatchSettings =>
+  withValidFields(value, DEFAULT_BATCH_SETTINGS, { concurrency: atLeastOne, requestsPerMinute: atLeastOne });
+
+/**
+ * Runs segment analyses with bounded concurrency and a minimum spacing of 60s / RPM between
+ * requests. Quota failures go back to the end of the queue instead of being reported as errors,
+ * until an item has been requeued MAX_REQUEUES times.
+ */
+export const createAnalysisQueue = ({ settings: initialSettings, worker, onProgress, onGiveUp }: AnalysisQueueOptions): AnalysisQueue => {
+  let settings = initialSettings;
+  let queue: string[] = [];
+  const inFlight = new Set<string>();
+  const attempts = new Map<string, number>();
+  const durations: number[] = [];
+  let total = 0;
+  let completed = 0;
+  let failed = 0;
+  let requeued = 0;
+  let isPaused = false;
+  let isCancelled = false;
+  let lastDispatch = 0;
+  let cooldownUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const spacing = () => 60000 / Math.max(1, settings.requestsPerMinute);
+
+  const estimate = (): number | null => {
+    const remaining = queue.length + inFlight.size;
+    if (remaining === 0) return 0;
+    if (durations.length === 0) return null;
+    const average = durations.reduce((sum, d) => sum + d, 0) / durations.length;
+    const perItem = Math.max(average / Math.max(1, settings.concurrency), spacing());
+    return Math.round(remaining * perItem + Math.max(0, cooldownUntil - Date.now()));
+  };
+
+  const emit = () => {
+    onProgress({
+      total,
+      completed,
+      failed,
+      requeued,
+      queuedIds: [...queue],
+      inFlightIds: [...inFlight],
+      isPaused,
+      isFinished: queue.length === 0 && inFlight.size === 0,
+      isCancelled,
+      etaMs: estimate(),
+      cooldownUntil: cooldownUntil > Date.now() ? cooldownUntil : null,
+    });
+  };
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const pump = () => {
+    if (!isPaused && !isCancelled) {
+      while (queue.length > 0 && inFlight.size < settings.concurrency) {
+        const now = Date.now();
+        const readyAt = Math.max(lastDispatch + spacing(), cooldownUntil);
+        if (now < readyAt) {
+          if (!timer) {
+            timer = setTimeout(() => {
+              timer = null;
+              pump();
+            }, readyAt - now);
+          }
+          break;
+        }
+        const previousDispatch = lastDispatch;
+        lastDispatch = now;
+        run(queue.shift()!, now, previousDispatch);
+      }
+    }
+    emit();
+  };
+
+  const run = async (id: string, dispatchedAt: number, previousDispatch: number) => {
+    inFlight.add(id);
+    const startedAt = Date.now();
+    let result: QueueTaskResult;
+    try {
+      result = await worker(id);
+    } catch (error) {
+      console.error(`Batch analysis failed for segment ${id}:`, error);
+      result = { outcome: 'failed' };
+    }
+    inFlight.delete(id);
+
+    // A cache hit made no request, so it hands its slot in the rate limit back.
+    if (result.cached && lastDispatch === dispatchedAt) {
+      lastDispatch = previousDispatch;
+      clearTimer();
+    }
+
+    if (result.outcome === 'retry' && !isCancelled) {
+      const count = (attempts.get(id) || 0) + 1;
+      attempts.set(id, count);
+      if (count <= MAX_REQUEUES) {
+        queue.push(id);
+        requeued++;
+        cooldownUntil = Date.now() + (result.retryAfterMs ?? QUOTA_COOLDOWN_MS);
+      } else {
+        failed++;
+        onGiveUp?.(id, result);
+      }
+    } else if (result.outcome === 'done') {
+      completed++;
+      if (!result.cached) durations.push(Date.now() - startedAt);
+    } else {
+      failed++;
+    }
+    pump();
+  };
+
+  return {
+    start: (ids) => {
+      const fresh = ids.filter(id => !queue.includes(id) && !inFlight.has(id));
+      queue.push(...fresh);
+      total += fresh.length;
+      isCancelled = false;
+      pump();
+    },
+    pause: () => {
+      isPaused = true;
+      clearTimer();
+      emit();
+    },
+    resume: () => {
+      isPaused = false;
+      pump();
+    },
+    cancel: () => {
+      isCancelled = true;
+      queue = [];
+      clearTimer();
+      emit();
+    },
+    updateSettings: (next) => {
+      settings = next;
+      clearTimer();
+      pump();
+    },
+  };
+};
@@ -0,0 +1,358 @@
+import { AISettings, ProviderConfig, ProviderId, AnalysisError, AnalysisErrorCode, AnalysisIssue, SegmentCategory, IssueSeverity, GlossaryEntry, WordBreakdown, ProjectSettings, TextSpan } from '../types';
+import { AIProvider, ProviderError } from './aiProvider';
+import { isRecord, isString, oneOf, withValidFields } from './jsonUtils';
+import { RawIssue, normalizeIssues } from './issueService';
+import { parsePartialJson } from './partialJson';
+import { DEFAULT_PROJECT_SETTINGS, REGISTER_LABELS, activePromptTemplate, projectInstructions, renderTemplate } from './promptService';
+import { geminiProvider } from './geminiService';
+import { openAiProvider } from './openaiService';
+import { createMasker, unmaskOffset, MaskedText } from './markupService';
+
+export interface AnalysisResult {
+  feedback: string;
+  wordBreakdown: Array<{
+    targetWord: string;
+    sourceEquivalent: string;
+    context: string;
+  }>;
+  issues: AnalysisIssue[];
+  /** Corrected target, or null when the model proposes no change. */
+  suggestedTarget: string | null;
+}
+
+type RawAnalysis = Omit<AnalysisResult, 'issues' | 'suggestedTarget'> & { issues?: RawIssue[]; suggestedTarget?: string };
+
+export type AnalysisOutcome =
+  | { ok: true; result: AnalysisResult }
+  | { ok: false; error: AnalysisError };
+
+export const PROVIDERS: Record<ProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+};
+
+export const getProvider = (id: ProviderId): AIProvider => PROVIDERS[id] || geminiProvider;
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  providers: {
+    gemini: { apiKey: '', baseUrl: '', model: geminiProvider.defaultModel },
+    openai: { apiKey: '', baseUrl: openAiProvider.defaultBaseUrl, model: openAiProvider.defaultModel },
+  },
+};
+
+const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[];
+
+/** AI settings read back from storage; an unknown provider or a malformed config falls back to the defaults. */
+export const toAiSettings = (value: unknown): AISettings => {
+  const saved = isRecord(value) ? value : {};
+  const providers = isRecord(saved.providers) ? saved.providers : {};
+  return {
+    provider: oneOf(PROVIDER_IDS)(saved.provider) ? saved.provider as ProviderId : DEFAULT_AI_SETTINGS.provider,
+    providers: Object.fromEntries(PROVIDER_IDS.map(id => [
+      id,
+      withValidFields(providers[id], DEFAULT_AI_SETTINGS.providers[id], { apiKey: isString, baseUrl: isString, model: isString }),
+    ])) as AISettings['providers'],
+  };
+};
+
+/** The active provider's config, falling back to the build-time Gemini key. */
+export const resolveProviderConfig = (settings: AISettings): ProviderConfig => {
+  const config = settings.providers[settings.provider];
+  if (settings.provider === 'gemini' && !config.apiKey.trim()) {
+    const envKey = typeof process !== 'undefined' ? process.env.API_KEY : undefined;
+    return { ...config, apiKey: envKey || '' };
+  }
+  return config;
+};
+
+export const isProviderConfigured = (settings: AISettings): boolean => {
+  const provider = getProvider(settings.provider);
+  return !provider.requiresKey || !!resolveProviderConfig(settings).apiKey.trim();
+};
+
+// Shared by every provider so Gemini and OpenAI-compatible backends return the same shape.
+export const ANALYSIS_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    feedback: { type: 'string' },
+    wordBreakdown: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          targetWord: { type: 'string' },
+          sourceEquivalent: { type: 'string' },
+          context: { type: 'string' },
+        },
+        required: ['targetWord', 'sourceEquivalent', 'context'],
+        additionalProperties: false,
+      },
+    },
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: {
+            type: 'string',
+            enum: Object.values(SegmentCategory).filter(c => c !== SegmentCategory.None),
+          },
+          severity: { type: 'string', enum: Object.values(IssueSeverity) },
+          description: { type: 'string' },
+          targetText: { type: 'string' },
+          targetStart: { type: 'integer' },
+          sourceText: { type: 'string' },
+          sourceStart: { type: 'integer' },
+          suggestion: { type: 'string' },
+        },
+        required: ['category', 'severity', 'description', 'targetText', 'targetStart', 'sourceText', 'sourceStart', 'suggestion'],
+        additionalProperties: false,
+      },
+    },
+    suggestedTarget: { type: 'string' },
+  },
+  required: ['feedback', 'wordBreakdown', 'issues', 'suggestedTarget'],
+  additionalProperties: false,
+};
+
+/** Bump whenever the schema or prompt rendering changes so cached results from older prompts are not reused. */
+export const AUDIT_PROMPT_VERSION = 2;
+
+export interface AnalysisRequest {
+  sourceText: string;
+  targetText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  glossary?: GlossaryEntry[];
+  /** Style guide, register and prompt template; the built-in defaults when omitted. */
+  project?: ProjectSettings;
+  /** Set when placeholders and tags in the texts were replaced by markers; see protectMarkup. */
+  maskedMarkup?: boolean;
+}
+
+const glossaryInstructions = (entries: GlossaryEntry[] | undefined) => {
+  if (!entries || entries.length === 0) return '';
+  const lines = entries.map(entry => {
+    const parts = [`"${entry.source}" => ${entry.approved.map(t => `"${t}"`).join(' or ') || '(no approved term)'}`];
+    if (entry.forbidden.length > 0) parts.push(`never ${entry.forbidden.map(t => `"${t}"`).join(', ')}`);
+    if (entry.note) parts.push(`note: ${entry.note}`);
+    return `- ${parts.join('; ')}`;
+  });
+  return `APPROVED GLOSSARY (report any deviation as a Terminology issue):\n${lines.join('\n')}`;
+};
+
+const MASKED_MARKUP_INSTRUCTIONS = `PROTECTED MARKUP: Markers such as ⟦1⟧ stand for placeholders, ICU syntax and tags. They are not text:
+never translate, remove or renumber them, and copy them unchanged into the suggested target.
+Report a marker missing from or added to the target as a Formatting issue.`;
+
+export const buildAuditPrompt = (request: AnalysisRequest) => {
+  const project = request.project || DEFAULT_PROJECT_SETTINGS;
+  const prompt = renderTemplate(activePromptTemplate(project).text, {
+    sourceLanguage: request.sourceLanguage,
+    targetLanguage: request.targetLanguage,
+    sourceText: request.sourceText,
+    targetText: request.targetText,
+    glossary: glossaryInstructions(request.glossary),
+    projectInstructions: projectInstructions(project),
+    styleGuide: project.styleGuide,
+    register: REGISTER_LABELS[project.register],
+    domain: project.domain,
+    audience: project.audience,
+  });
+  // Appended rather than templated so custom templates cannot drop it.
+  return request.maskedMarkup ? `${prompt}\n\n${MASKED_MARKUP_INSTRUCTIONS}` : prompt;
+};
+
+/** The parts of an audit that are worth showing before the response is complete. */
+export interface PartialAnalysis {
+  feedback: string;
+  wordBreakdown: WordBreakdown[];
+}
+
+export interface AnalysisOptions {
+  signal?: AbortSignal;
+  onPartial?: (partial: PartialAnalysis) => void;
+}
+
+const stringOr = (value: unknown, fallback = '') => typeof value === 'string' ? value : fallback;
+const numberOr = (value: unknown, fallback: number) => typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const toWordBreakdown = (rows: unknown[]): WordBreakdown[] => rows
+  .filter(isRecord)
+  .filter(row => typeof row.targetWord === 'string' && typeof row.sourceEquivalent === 'string')
+  .map(row => ({ targetWord: row.targetWord as string, sourceEquivalent: row.sourceEquivalent as string, context: stringOr(row.context) }));
+
+const toPartialAnalysis = (text: string): PartialAnalysis | null => {
+  const value: unknown = parsePartialJson(text);
+  if (!isRecord(value)) return null;
+  return {
+    feedback: stringOr(value.feedback),
+    wordBreakdown: Array.isArray(value.wordBreakdown) ? toWordBreakdown(value.wordBreakdown) : [],
+  };
+};
+
+const unmaskSpan = (span: TextSpan | null, masked: MaskedText, unmask: (text: string) => string): TextSpan | null => {
+  if (!span) return null;
+  const text = unmask(span.text);
+  const start = span.start < 0 ? span.start : unmaskOffset(masked, span.start);
+  return { text, start, end: start < 0 ? span.end : start + text.length };
+};
+
+/**
+ * Masks placeholders, ICU syntax and tags in a request so the model cannot translate them,
+ * and returns functions that put them back into whatever the model produced.
+ */
+export const protectMarkup = (request: AnalysisRequest) => {
+  const masker = createMasker();
+  const source = masker.mask(request.sourceText);
+  const target = masker.mask(request.targetText);
+  const unmask = masker.unmask;
+  const restorePartial = (partial: PartialAnalysis): PartialAnalysis => ({
+    feedback: unmask(partial.feedback),
+    wordBreakdown: partial.wordBreakdown.map(row => ({ ...row, targetWord: unmask(row.targetWord), sourceEquivalent: unmask(row.sourceEquivalent) })),
+  });
+
+  return {
+    request: masker.hasMarkup()
+      ? { ...request, sourceText: source.text, targetText: target.text, maskedMarkup: true }
+      : request,
+    restorePartial,
+    restoreResult: (result: AnalysisResult): AnalysisResult => ({
+      ...result,
+      ...restorePartial(result),
+      issues: result.issues.map(issue => ({
+        ...issue,
+        description: unmask(issue.description),
+        suggestion: unmask(issue.suggestion),
+        sourceSpan: unmaskSpan(issue.sourceSpan, source, unmask),
+        targetSpan: unmaskSpan(issue.targetSpan, target, unmask),
+      })),
+      suggestedTarget: result.suggestedTarget === null ? null : unmask(result.suggestedTarget),
+    }),
+  };
+};
+
+const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
+
+// Longer server-suggested waits are handed back to the caller instead of blocking the request.
+const MAX_INLINE_RETRY_MS = 15000;
+const MAX_RETRIES = 3;
+
+const failure = (code: AnalysisErrorCode, message: string, extra: Partial<AnalysisError> = {}): AnalysisOutcome => ({
+  ok: false,
+  error: { code, message, timestamp: Date.now(), ...extra },
+});
+
+export const classifyError = (error: unknown): AnalysisError => {
+  const timestamp = Date.now();
+  if (error instanceof ProviderError) {
+    const { status, retryAfterMs } = error;
+    let code: AnalysisErrorCode = error.code || 'unknown';
+    if (!error.code) {
+      if (status === 429) code = 'quota';
+      else if (status === 401 || status === 403) code = 'invalid_key';
+      else if (status && status >= 500) code = 'network';
+    }
+    return { code, message: error.message, status, retryAfterMs, timestamp };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  // fetch() rejects with a TypeError when the host is unreachable or CORS blocks the request.
+  if (error instanceof TypeError) return { code: 'network', message, timestamp };
+  if (error instanceof SyntaxError) return { code: 'bad_response', message, timestamp };
+  return { code: 'unknown', message, timestamp };
+};
+
+/**
+ * Checks a parsed audit field by field. Models sometimes return the right keys with the wrong
+ * types; null means the response is unusable. Missing optional text inside issues becomes ''.
+ */
+const toRawAnalysis = (value: unknown): RawAnalysis | null => {
+  if (!isRecord(value) || typeof value.feedback !== 'string' || !Array.isArray(value.wordBreakdown)) return null;
+  if (value.issues !== undefined && !Array.isArray(value.issues)) return null;
+  if (value.suggestedTarget !== undefined && value.suggestedTarget !== null && typeof value.suggestedTarget !== 'string') return null;
+  return {
+    feedback: value.feedback,
+    wordBreakdown: toWordBreakdown(value.wordBreakdown),
+    issues: (value.issues || []).filter(isRecord).map(issue => ({
+      category: stringOr(issue.category),
+      severity: stringOr(issue.severity),
+      description: stringOr(issue.description),
+      targetText: stringOr(issue.targetText),
+      targetStart: numberOr(issue.targetStart, 0),
+      sourceText: stringOr(issue.sourceText),
+      sourceStart: numberOr(issue.sourceStart, 0),
+      suggestion: stringOr(issue.suggestion),
+    })),
+    suggestedTarget: stringOr(value.suggestedTarget) || undefined,
+  };
+};
+
+// Once the response has arrived, anything that goes wrong is the response's fault, not the connection's.
+const readAnalysisResponse = (text: string, request: AnalysisRequest): AnalysisOutcome => {
+  try {
+    const parsed = toRawAnalysis(JSON.parse(text));
+    if (!parsed) return failure('bad_response', 'The response did not match the expected audit format.');
+    return {
+      ok: true,
+      result: {
+        feedback: parsed.feedback,
+        wordBreakdown: parsed.wordBreakdown,
+        issues: normalizeIssues(parsed.issues, request.sourceText, request.targetText),
+        suggestedTarget: parsed.suggestedTarget && parsed.suggestedTarget.trim() !== request.targetText.trim()
+          ? parsed.suggestedTarget
+          : null,
+      },
+    };
+  } catch (e) {
+    console.error('Unreadable audit response:', e);
+    return failure('bad_response', e instanceof Error ? e.message : 'The response could not be read.');
+  }
+};
+
+export const analyzeTranslation = async (
+  request: AnalysisRequest,
+  settings: AISettings,
+  options: AnalysisOptions = {},
+  retryCount = 0
+): Promise<AnalysisOutcome> => {
+  const { signal, onPartial } = options;
+  const provider = getProvider(settings.provider);
+  const config = resolveProviderConfig(settings);
+
+  if (provider.requiresKey && config.apiKey.trim() === '') {
+    return failure('missing_key', `No API key configured for ${provider.label}.`);
+  }
+
+  let text: string;
+  try {
+    text = await provider.generateJson({
+      prompt: buildAuditPrompt(request),
+      schema: ANALYSIS_SCHEMA,
+      schemaName: 'translation_audit',
+      signal,
+      onText: onPartial && (partialText => {
+        const partial = toPartialAnalysis(partialText);
+        if (partial) onPartial(partial);
+      }),
+    }, config);
+  } catch (e) {
+    if (signal?.aborted) return failure('cancelled', 'The check was cancelled.');
+    console.error(`${provider.label} Error (Attempt ${retryCount + 1}):`, e);
+    const error = classifyError(e);
+
+    // 429 Handling with Exponential Backoff, honouring the server's retry hint when it is short
+    if (error.code === 'quota' && retryCount < MAX_RETRIES) {
+      const waitTime = error.retryAfterMs ?? Math.pow(2, retryCount) * 2000;
+      if (waitTime <= MAX_INLINE_RETRY_MS) {
+        console.warn(`Quota hit. Retrying in ${waitTime}ms...`);
+        await delay(waitTime);
+        if (signal?.aborted) return failure('cancelled', 'The check was cancelled.');
+        return analyzeTranslation(request, settings, options, retryCount + 1);
+      }
+    }
+    return { ok: false, error };
+  }
+
+  return readAnalysisResponse(text, request);
+};
@@ -0,0 +1,95 @@
+import { AISettings, AnalysisError, BackTranslation, BackTranslatedSentence, DriftLevel } from '../types';
+import { AnalysisRequest, classifyError, getProvider, resolveProviderConfig } from './analysisService';
+import { isRecord } from './jsonUtils';
+
+export type BackTranslationOutcome =
+  | { ok: true; result: BackTranslation }
+  | { ok: false; error: AnalysisError };
+
+const DRIFT_LEVELS: DriftLevel[] = ['none', 'minor', 'major'];
+
+export const BACK_TRANSLATION_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    backTranslation: { type: 'string' },
+    sentences: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          source: { type: 'string' },
+          backTranslation: { type: 'string' },
+          drift: { type: 'string', enum: DRIFT_LEVELS },
+          note: { type: 'string' },
+        },
+        required: ['source', 'backTranslation', 'drift', 'note'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['backTranslation', 'sentences'],
+  additionalProperties: false,
+};
+
+const buildBackTranslationPrompt = ({ sourceText, targetText, sourceLanguage, targetLanguage }: AnalysisRequest) => `
+        Back-translate this ${targetLanguage} translation into ${sourceLanguage} so that a reviewer who cannot read
+        ${targetLanguage} can judge it.
+        ${sourceLanguage} SOURCE: "${sourceText}"
+        ${targetLanguage} TARGET: "${targetText}"
+
+        TASKS:
+        1. Back-translation: Translate the TARGET back into ${sourceLanguage} as literally as possible. Keep its word
+           order, omissions and additions; do not repair errors or copy wording from the SOURCE.
+        2. Sentences: Split the SOURCE into sentences. For each, give the source sentence verbatim, the literal
+           back-translation of the part of the TARGET that renders it (empty string if nothing does), the meaning
+           drift between the two (none, minor or major) and a short note naming what changed (empty string if none).
+      `;
+
+const toSentence = (raw: unknown): BackTranslatedSentence => {
+  const sentence = isRecord(raw) ? raw : {};
+  return {
+    source: String(sentence.source ?? ''),
+    backTranslation: String(sentence.backTranslation ?? ''),
+    drift: DRIFT_LEVELS.find(level => level === sentence.drift) || 'none',
+    note: String(sentence.note ?? ''),
+  };
+};
+
+/** Asks the active provider for a literal back-translation of the target, aligned to the source sentence by sentence. */
+export const backTranslate = async (
+  request: AnalysisRequest,
+  settings: AISettings
+): Promise<BackTranslationOutcome> => {
+  const provider = getProvider(settings.provider);
+  const config = resolveProviderConfig(settings);
+
+  if (provider.requiresKey && config.apiKey.trim() === '') {
+    return { ok: false, error: { code: 'missing_key', message: `No API key configured for ${provider.label}.`, timestamp: Date.now() } };
+  }
+
+  try {
+    const text = await provider.generateJson({
+      prompt: buildBackTranslationPrompt(request),
+      schema: BACK_TRANSLATION_SCHEMA,
+      schemaName: 'back_translation',
+    }, config);
+
+    const parsed: unknown = JSON.parse(text);
+    if (!isRecord(parsed) || typeof parsed.backTranslation !== 'string') {
+      return { ok: false, error: { code: 'bad_response', message: 'The response did not match the back-translation format.', timestamp: Date.now() } };
+    }
+    return {
+      ok: true,
+      result: {
+        language: request.sourceLanguage,
+        text: parsed.backTranslation,
+        sentences: Array.isArray(parsed.sentences) ? parsed.sentences.map(toSentence) : [],
+        targetText: request.targetText,
+        createdAt: Date.now(),
+      },
+    };
+  } catch (e) {
+    console.error(`${provider.label} Back-translation Error:`, e);
+    return { ok: false, error: classifyError(e) };
+  }
+};
@@ -0,0 +1,70 @@
+import { DiffToken, RevisionPart } from '../types';
+
+/** Splits text into words, runs of whitespace and single punctuation marks. */
+export const tokenize = (text: string): string[] => text.match(/[\p{L}\p{M}\p{N}_]+|\s+|[^\p{L}\p{M}\p{N}_\s]/gu) || [];
+
+const merge = (tokens: DiffToken[]): DiffToken[] =>
+  tokens.reduce<DiffToken[]>((merged, token) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === token.type) last.text += token.text;
+    else merged.push({ ...token });
+    return merged;
+  }, []);
+
+/**
+ * Word-level diff from `before` to `after` using a longest common subsequence.
+ * `delete` tokens exist only in `before`, `insert` tokens only in `after`.
+ */
+export const diffWords = (before: string, after: string): DiffToken[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const tokens: DiffToken[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      tokens.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      tokens.push({ type: 'delete', text: a[i++] });
+    } else {
+      tokens.push({ type: 'insert', text: b[j++] });
+    }
+  }
+  while (i < a.length) tokens.push({ type: 'delete', text: a[i++] });
+  while (j < b.length) tokens.push({ type: 'insert', text: b[j++] });
+  return merge(tokens);
+};
+
+/** Groups a diff into unchanged runs and change hunks (adjacent deletions and insertions). */
+export const revisionParts = (before: string, after: string): RevisionPart[] =>
+  diffWords(before, after).reduce<RevisionPart[]>((parts, token) => {
+    const last = parts[parts.length - 1];
+    if (token.type === 'equal') {
+      parts.push({ type: 'equal', text: token.text });
+    } else if (last && last.type === 'change') {
+      if (token.type === 'delete') last.removed += token.text;
+      else last.added += token.text;
+    } else {
+      parts.push({ type: 'change', removed: token.type === 'delete' ? token.text : '', added: token.type === 'insert' ? token.text : '' });
+    }
+    return parts;
+  }, []);
+
+/** Rebuilds the text with only the change hunks whose index (among changes) passes `accept`. */
+export const applyRevision = (parts: RevisionPart[], accept: (changeIndex: number) => boolean): string => {
+  let changeIndex = -1;
+  return parts.map(part => {
+    if (part.type === 'equal') return part.text;
+    changeIndex++;
+    return accept(changeIndex) ? part.added : part.removed;
+  }).join('');
+};
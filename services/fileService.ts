@@ -0,0 +1,19 @@
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/** withSuffix("job.xlf", "reviewed") -> "job.reviewed.xlf"; pass `extension` to change the type as well. */
+export const withSuffix = (fileName: string, suffix: string, extension?: string) => {
+  const dot = fileName.lastIndexOf('.');
+  const base = dot > 0 ? fileName.substring(0, dot) : fileName;
+  const ext = extension || (dot > 0 ? fileName.substring(dot + 1) : 'txt');
+  return `${base}.${suffix}.${ext}`;
+};
@@ -1,95 +1,63 @@
-import { GoogleGenAI, Type } from "@google/genai";
-
-export interface AnalysisResult {
-  feedback: string;
-  wordBreakdown: Array<{
-    targetWord: string;
-    sourceEquivalent: string;
-    context: string;
-  }>;
-}
-
-const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
-
-export const analyzeTranslation = async (
-  sourceText: string,
-  targetText: string,
-  targetLanguage: string,
-  userApiKey?: string,
-  retryCount = 0
-): Promise<AnalysisResult | string> => {
-  const apiKey = userApiKey || (typeof process !== 'undefined' ? process.env.API_KEY : undefined);
+import { GoogleGenAI, ApiError } from "@google/genai";
+import { AIProvider, ProviderError } from './aiProvider';
+
+// Quota errors embed the server's suggestion, e.g. "retryDelay": "37s" or "Please retry in 37.4s".
+const RETRY_DELAY_PATTERN = /retry(?:Delay"?:\s*"|\s+in\s+)(\d+(?:\.\d+)?)s/i;
+
+const toProviderError = (error: ApiError) => {
+  const match = error.message.match(RETRY_DELAY_PATTERN);
+  const invalidKey = error.status === 400 && /API key not valid|API_KEY_INVALID/i.test(error.message);
+  return new ProviderError(error.message, {
+    status: invalidKey ? 401 : error.status,
+    retryAfterMs: match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined,
+  });
+};
 
-  if (!apiKey || apiKey.trim() === '') {
-    return "API Key Missing: Please click the 'API Key' button in the header to set your key.";
-  }
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  // 'gemini-3-flash-preview' has significantly higher RPM limits on the free tier
+  defaultModel: 'gemini-3-flash-preview',
+  defaultBaseUrl: '',
+  suggestedModels: ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+  requiresKey: true,
 
-  try {
+  generateJson: async ({ prompt, schema, signal, onText }, config) => {
     // ALWAYS create a fresh instance to avoid stale config
-    const ai = new GoogleGenAI({ apiKey });
-
-    // Force 'gemini-3-flash-preview' for significantly higher RPM limits
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `
-        Audit this translation. 
-        ENGLISH SOURCE: "${sourceText}"
-        ${targetLanguage} TARGET: "${targetText}"
-
-        TASKS:
-        1. Feedback: Summarize accuracy and style errors.
-        2. Breakdown: Provide a word-by-word mapping for every word in the target translation.
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            feedback: { type: Type.STRING },
-            wordBreakdown: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  targetWord: { type: Type.STRING },
-                  sourceEquivalent: { type: Type.STRING },
-                  context: { type: Type.STRING },
-                },
-                required: ["targetWord", "sourceEquivalent", "context"],
-              },
-            },
-          },
-          required: ["feedback", "wordBreakdown"],
-        },
-      },
+    const ai = new GoogleGenAI({
+      apiKey: config.apiKey,
+      ...(config.baseUrl ? { httpOptions: { baseUrl: config.baseUrl } } : {}),
     });
 
-    const text = response.text;
-    if (!text) throw new Error("Empty response from AI");
-    
-    return JSON.parse(text) as AnalysisResult;
-
-  } catch (error: any) {
-    console.error(`Gemini Error (Attempt ${retryCount + 1}):`, error);
-
-    const errorMessage = error.message || "";
-
-    // 429 Handling with Exponential Backoff
-    if (errorMessage.includes("429") && retryCount < 3) {
-      const waitTime = Math.pow(2, retryCount) * 2000;
-      console.warn(`Quota hit. Retrying in ${waitTime}ms...`);
-      await delay(waitTime);
-      return analyzeTranslation(sourceText, targetText, targetLanguage, userApiKey, retryCount + 1);
-    }
-
-    if (errorMessage.includes("429")) {
-      return "QUOTA EXCEEDED (429): You have reached the limit for free requests. Please wait 60 seconds and try again. Using a paid API key or 'Gemini Flash' model helps avoid this.";
-    }
-
-    if (errorMessage.includes("401")) {
-      return "INVALID API KEY: The key you provided is not working. Please check it in the settings.";
+    let text = '';
+    try {
+      const stream = await ai.models.generateContentStream({
+        model: config.model || geminiProvider.defaultModel,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: schema,
+          abortSignal: signal,
+        },
+      });
+
+      for await (const chunk of stream) {
+        const blockReason = chunk.promptFeedback?.blockReason;
+        const finishReason = chunk.candidates?.[0]?.finishReason;
+        if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+          throw new ProviderError(`Blocked by safety filters (${blockReason || finishReason})`, { code: 'blocked' });
+        }
+        if (chunk.text) {
+          text += chunk.text;
+          onText?.(text);
+        }
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw toProviderError(error);
+      throw error;
     }
 
-    return `ANALYSIS FAILED: ${errorMessage.substring(0, 150)}...`;
-  }
+    if (!text) throw new ProviderError("Empty response from AI", { code: 'bad_response' });
+    return text;
+  },
 };
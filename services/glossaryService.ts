@@ -0,0 +1,227 @@
+import { Glossary, GlossaryEntry, TermViolation, TextSpan } from '../types';
+import { DEFAULT_SOURCE_LANGUAGE } from '../constants';
+import { byLocalName, escapeXml, firstChild, parseXmlDocument } from './xmlUtils';
+import { escapeRegExp, wholeWord } from './textUtils';
+import { isRecord, isString, optional, arrayOf, shape } from './jsonUtils';
+import { languagePair } from './languageService';
+
+export const generateEntryId = () => Math.random().toString(36).substring(2, 9);
+
+const ENTRY_FIELDS = shape({
+  id: isString,
+  source: isString,
+  approved: arrayOf(isString),
+  forbidden: arrayOf(isString),
+  note: optional(isString),
+});
+
+const isGlossaryEntry = (value: unknown): value is GlossaryEntry => ENTRY_FIELDS(value);
+
+/** The glossary read back from storage. Malformed entries are dropped rather than breaking the checks. */
+export const toGlossary = (value: unknown): Glossary => {
+  if (!isRecord(value)) return {};
+  // Glossaries used to be keyed by target language alone, with English as the implied source.
+  return Object.fromEntries(Object.entries(value).map(([key, entries]) => [
+    key.includes('|') ? key : languagePair(DEFAULT_SOURCE_LANGUAGE, key),
+    Array.isArray(entries) ? entries.filter(isGlossaryEntry) : [],
+  ]));
+};
+
+/** Whole-word, case-insensitive matches of `term`; letters of any script count as word characters. */
+const findTerm = (text: string, term: string): TextSpan[] => {
+  const trimmed = term.trim();
+  if (!trimmed) return [];
+  const pattern = new RegExp(wholeWord(escapeRegExp(trimmed)), 'giu');
+  return Array.from(text.matchAll(pattern)).map(match => ({
+    text: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+};
+
+// Targets are matched as plain substrings: inflecting and agglutinating languages often attach
+// affixes to an approved term, which a whole-word match would miss.
+const findInTarget = (text: string, term: string): TextSpan | null => {
+  const trimmed = term.trim();
+  if (!trimmed) return null;
+  const index = text.toLocaleLowerCase().indexOf(trimmed.toLocaleLowerCase());
+  return index === -1 ? null : { text: text.substring(index, index + trimmed.length), start: index, end: index + trimmed.length };
+};
+
+export const findGlossaryMatches = (sourceText: string, entries: GlossaryEntry[]): Array<{ entry: GlossaryEntry; span: TextSpan }> =>
+  entries.flatMap(entry => {
+    const spans = findTerm(sourceText, entry.source);
+    return spans.length > 0 ? [{ entry, span: spans[0] }] : [];
+  });
+
+/**
+ * Deterministic terminology check: flags source terms whose approved translation is absent
+ * from the target, and forbidden variants that appear in it.
+ */
+export const checkTerminology = (sourceText: string, targetText: string, entries: GlossaryEntry[]): TermViolation[] =>
+  findGlossaryMatches(sourceText, entries).flatMap(({ entry, span }) => {
+    const violations: TermViolation[] = [];
+    const approved = entry.approved.filter(term => term.trim());
+    if (approved.length > 0 && !approved.some(term => findInTarget(targetText, term))) {
+      violations.push({ entry, kind: 'missing', sourceSpan: span, targetSpan: null });
+    }
+    entry.forbidden.forEach(term => {
+      const targetSpan = findInTarget(targetText, term);
+      if (targetSpan) violations.push({ entry, kind: 'forbidden', sourceSpan: span, targetSpan });
+    });
+    return violations;
+  });
+
+// --- CSV -------------------------------------------------------------------------------------
+
+const VALUE_SEPARATOR = '|';
+
+const splitValues = (value: string) =>
+  value.split(/[|;]/).map(v => v.trim()).filter(Boolean);
+
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+export const csvCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Columns: source, approved, forbidden, note. Multiple approved or forbidden terms are
+ * separated with "|". A header row is detected and skipped.
+ */
+export const parseGlossaryCsv = (content: string): GlossaryEntry[] => {
+  const rows = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (rows.length > 0 && rows[0][0].trim().toLowerCase() === 'source') rows.shift();
+  return rows
+    .filter(row => row[0] && row[0].trim())
+    .map(row => ({
+      id: generateEntryId(),
+      source: row[0].trim(),
+      approved: splitValues(row[1] || ''),
+      forbidden: splitValues(row[2] || ''),
+      note: (row[3] || '').trim() || undefined,
+    }));
+};
+
+export const exportGlossaryCsv = (entries: GlossaryEntry[]): string =>
+  [
+    'source,approved,forbidden,note',
+    ...entries.map(entry => [
+      csvCell(entry.source),
+      csvCell(entry.approved.join(VALUE_SEPARATOR)),
+      csvCell(entry.forbidden.join(VALUE_SEPARATOR)),
+      csvCell(entry.note || ''),
+    ].join(',')),
+  ].join('\n') + '\n';
+
+// --- TBX -------------------------------------------------------------------------------------
+
+const FORBIDDEN_STATUSES = ['deprecatedterm-admn-sts', 'supersededterm-admn-sts', 'deprecated', 'superseded', 'forbidden'];
+
+const langMatches = (lang: string | null, code: string) => {
+  if (!lang) return false;
+  const a = lang.toLowerCase();
+  const b = code.toLowerCase();
+  return a === b || a.split('-')[0] === b.split('-')[0];
+};
+
+/**
+ * Reads TBX-Basic / TBX v2 (`termEntry`, `langSet`, `tig`) and TBX v3 (`conceptEntry`, `langSec`, `termSec`).
+ * Terms whose administrative status is deprecated or superseded become forbidden variants.
+ */
+export const parseTbx = (content: string, sourceCode: string, targetCode: string): GlossaryEntry[] => {
+  const doc = content.includes('<tbx') ? parseXmlDocument(content, 'tbx') : parseXmlDocument(content, 'martif');
+  const concepts = [...byLocalName(doc, 'termEntry'), ...byLocalName(doc, 'conceptEntry')];
+
+  return concepts.flatMap(concept => {
+    const langSets = [...byLocalName(concept, 'langSet'), ...byLocalName(concept, 'langSec')];
+    const termsFor = (code: string) => {
+      const set = langSets.find(ls => langMatches(ls.getAttribute('xml:lang') || ls.getAttribute('lang'), code));
+      if (!set) return [];
+      return [...byLocalName(set, 'tig'), ...byLocalName(set, 'termSec'), ...byLocalName(set, 'ntig')].map(group => {
+        const term = (byLocalName(group, 'term')[0]?.textContent || '').trim();
+        const status = byLocalName(group, 'termNote')
+          .find(note => note.getAttribute('type') === 'administrativeStatus')?.textContent?.trim().toLowerCase() || '';
+        return { term, forbidden: FORBIDDEN_STATUSES.includes(status) };
+      }).filter(t => t.term);
+    };
+
+    const source = termsFor(sourceCode).find(t => !t.forbidden);
+    const target = termsFor(targetCode);
+    if (!source || target.length === 0) return [];
+
+    const definition = byLocalName(concept, 'descrip').find(d => d.getAttribute('type') === 'definition');
+    const note = (definition?.textContent || firstChild(concept, 'note')?.textContent || '').trim();
+
+    return [{
+      id: generateEntryId(),
+      source: source.term,
+      approved: target.filter(t => !t.forbidden).map(t => t.term),
+      forbidden: target.filter(t => t.forbidden).map(t => t.term),
+      note: note || undefined,
+    }];
+  });
+};
+
+export const exportTbx = (entries: GlossaryEntry[], sourceCode: string, targetCode: string): string => {
+  const termGroup = (term: string, status: string) =>
+    `        <tig><term>${escapeXml(term)}</term><termNote type="administrativeStatus">${status}</termNote></tig>`;
+
+  const concepts = entries.map((entry, idx) => [
+    `    <termEntry id="c${idx + 1}">`,
+    entry.note ? `      <descrip type="definition">${escapeXml(entry.note)}</descrip>` : null,
+    `      <langSet xml:lang="${sourceCode}">`,
+    termGroup(entry.source, 'preferredTerm-admn-sts'),
+    `      </langSet>`,
+    `      <langSet xml:lang="${targetCode}">`,
+    ...entry.approved.map(term => termGroup(term, 'preferredTerm-admn-sts')),
+    ...entry.forbidden.map(term => termGroup(term, 'deprecatedTerm-admn-sts')),
+    `      </langSet>`,
+    `    </termEntry>`,
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<martif type="TBX-Basic" xml:lang="en">',
+    '  <martifHeader><fileDesc><sourceDesc><p>Bilingual Proofreader glossary</p></sourceDesc></fileDesc></martifHeader>',
+    '  <text><body>',
+    ...concepts,
+    '  </body></text>',
+    '</martif>',
+    '',
+  ].join('\n');
+};
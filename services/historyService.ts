@@ -0,0 +1,38 @@
+import { Segment, SegmentRevision, RevisionOrigin } from '../types';
+
+export const HISTORY_LIMIT = 50;
+
+// Keystrokes closer together than this are folded into one revision.
+const COALESCE_MS = 2000;
+
+const TRACKED_FIELDS = ['targetText', 'status', 'category'] as const;
+
+const snapshotOf = (segment: Segment, origin: RevisionOrigin, timestamp = Date.now()): SegmentRevision => ({
+  timestamp,
+  origin,
+  targetText: segment.targetText,
+  status: segment.status,
+  category: segment.category,
+});
+
+/**
+ * Applies `updates` to a segment and appends a revision when the target, status or category changed.
+ * The first tracked change also records the state it started from.
+ */
+export const applyWithHistory = (segment: Segment, updates: Partial<Segment>, origin: RevisionOrigin): Segment => {
+  const next = { ...segment, ...updates };
+  const changed = TRACKED_FIELDS.some(field => updates[field] !== undefined && updates[field] !== segment[field]);
+  if (!changed) return next;
+
+  const history = segment.history && segment.history.length > 0 ? segment.history : [snapshotOf(segment, 'initial')];
+  const last = history[history.length - 1];
+  const revision = snapshotOf(next, origin);
+  const coalesce = origin === 'edit'
+    && last.origin === 'edit'
+    && revision.timestamp - last.timestamp < COALESCE_MS
+    && last.status === revision.status
+    && last.category === revision.category;
+
+  const updated = coalesce ? [...history.slice(0, -1), revision] : [...history, revision];
+  return { ...next, history: updated.slice(-HISTORY_LIMIT) };
+};
@@ -0,0 +1,114 @@
+const DB_NAME = 'bilingual_proofreader';
+const DB_VERSION = 3;
+
+/** Object stores and their indexes. Bump DB_VERSION whenever this changes. */
+const STORES: Record<string, { keyPath: string; indexes: string[] }> = {
+  memory: { keyPath: 'id', indexes: ['pair'] },
+  analysisCache: { keyPath: 'key', indexes: ['lastUsedAt'] },
+  projects: { keyPath: 'id', indexes: ['updatedAt'] },
+};
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.entries(STORES).forEach(([name, { keyPath, indexes }]) => {
+        const store = db.objectStoreNames.contains(name)
+          ? request.transaction!.objectStore(name)
+          : db.createObjectStore(name, { keyPath });
+        indexes.filter(index => !store.indexNames.contains(index)).forEach(index => store.createIndex(index, index));
+      });
+    };
+    // Another tab still holds an older version open, so the upgrade cannot start.
+    let blocked = false;
+    request.onblocked = () => {
+      blocked = true;
+      reject(new Error('Project storage is being upgraded. Close other tabs of this app and reload.'));
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Startup has already fallen back by the time a blocked upgrade goes through.
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // Let a newer version in another tab upgrade; the next call reopens.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const getByKey = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+export const countRecords = async (store: StoreName): Promise<number> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).count());
+};
+
+export const getAllByIndex = async <T>(store: StoreName, index: string, value: IDBValidKey): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).index(index).getAll(value));
+};
+
+export const putAll = async <T>(store: StoreName, items: T[]): Promise<void> => {
+  if (items.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  items.forEach(item => objectStore.put(item));
+  return transactionDone(tx);
+};
+
+export const deleteKeys = async (store: StoreName, keys: IDBValidKey[]): Promise<void> => {
+  if (keys.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  keys.forEach(key => objectStore.delete(key));
+  return transactionDone(tx);
+};
+
+export const clearStore = async (store: StoreName): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).clear();
+  return transactionDone(tx);
+};
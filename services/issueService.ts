@@ -0,0 +1,68 @@
+import { AnalysisIssue, IssueSeverity, SegmentCategory, TextSpan } from '../types';
+
+export const SEVERITY_RANK: Record<IssueSeverity, number> = {
+  [IssueSeverity.Minor]: 1,
+  [IssueSeverity.Major]: 2,
+  [IssueSeverity.Critical]: 3,
+};
+
+/** The shape requested from the model: flat fields keep the schema valid for strict JSON modes. */
+export interface RawIssue {
+  category: string;
+  severity: string;
+  description: string;
+  targetText: string;
+  targetStart: number;
+  sourceText: string;
+  sourceStart: number;
+  suggestion: string;
+}
+
+/**
+ * Finds `text` inside `content`, preferring the occurrence closest to `hint`.
+ * Model offsets are often off by a few characters, and the text may have been edited since.
+ */
+export const locateSpan = (content: string, text: string, hint = 0): TextSpan | null => {
+  if (!text) return null;
+  if (content.substring(hint, hint + text.length) === text) {
+    return { text, start: hint, end: hint + text.length };
+  }
+  let best = -1;
+  let index = content.indexOf(text);
+  while (index !== -1) {
+    if (best === -1 || Math.abs(index - hint) < Math.abs(best - hint)) best = index;
+    index = content.indexOf(text, index + 1);
+  }
+  return best === -1 ? null : { text, start: best, end: best + text.length };
+};
+
+/** Re-anchors a stored span against the current text, or drops it when the words are gone. */
+export const relocateSpan = (content: string, span: TextSpan | null): TextSpan | null =>
+  span ? locateSpan(content, span.text, span.start) : null;
+
+const asCategory = (value: string): SegmentCategory => {
+  const match = Object.values(SegmentCategory).find(c => c.toLowerCase() === (value || '').toLowerCase());
+  return match && match !== SegmentCategory.None ? match : SegmentCategory.Accuracy;
+};
+
+const asSeverity = (value: string): IssueSeverity => {
+  const match = Object.values(IssueSeverity).find(s => s === (value || '').toLowerCase());
+  return match || IssueSeverity.Minor;
+};
+
+export const normalizeIssues = (raw: RawIssue[] | undefined, sourceText: string, targetText: string): AnalysisIssue[] =>
+  (raw || []).map(issue => ({
+    category: asCategory(issue.category),
+    severity: asSeverity(issue.severity),
+    description: issue.description || '',
+    sourceSpan: locateSpan(sourceText, issue.sourceText, issue.sourceStart),
+    targetSpan: locateSpan(targetText, issue.targetText, issue.targetStart),
+    suggestion: issue.suggestion || '',
+  }));
+
+/** Highest severity wins; ties go to the issue the model listed first. */
+export const mostSevereIssue = (issues: AnalysisIssue[]): AnalysisIssue | null =>
+  issues.reduce<AnalysisIssue | null>(
+    (worst, issue) => (!worst || SEVERITY_RANK[issue.severity] > SEVERITY_RANK[worst.severity] ? issue : worst),
+    null
+  );
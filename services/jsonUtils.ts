@@ -0,0 +1,24 @@
+/** Narrows parsed JSON, which may come from a provider, a file or old storage, before any field of it is read. */
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+export type Check = (value: unknown) => boolean;
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+export const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+export const oneOf = (values: readonly unknown[]): Check => (value) => values.includes(value);
+export const optional = (check: Check): Check => (value) => value === undefined || value === null || check(value);
+export const arrayOf = (check: Check): Check => (value) => Array.isArray(value) && value.every(check);
+export const either = (...checks: Check[]): Check => (value) => checks.some(check => check(value));
+export const shape = (fields: Record<string, Check>): Check => (value) =>
+  isRecord(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+
+/**
+ * `defaults` with every field of `value` that passes its check laid over them. Settings saved by an
+ * older version, or edited by hand, lose only the fields that are wrong.
+ */
+export const withValidFields = <T extends object>(value: unknown, defaults: T, fields: Record<keyof T, Check>): T => {
+  if (!isRecord(value)) return defaults;
+  const valid = Object.entries<Check>(fields).filter(([key, check]) => check(value[key]));
+  return { ...defaults, ...Object.fromEntries(valid.map(([key]) => [key, value[key]])) };
+};
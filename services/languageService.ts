@@ -0,0 +1,151 @@
+import { LOCALES } from '../constants';
+import { Locale, PluralCategory } from '../types';
+import { isString, isBoolean, oneOf, optional, arrayOf, shape } from './jsonUtils';
+
+const CHINESE_REGIONS: Record<string, string> = {
+  cn: 'Chinese (Simplified)',
+  sg: 'Chinese (Simplified)',
+  tw: 'Chinese (Traditional Mandarin)',
+  hk: 'Chinese (Traditional Mandarin)',
+  mo: 'Chinese (Traditional Mandarin)',
+};
+
+const CUSTOM_LOCALES_KEY = 'bilingual_proofreader_locales_v1';
+
+let customLocales: Locale[] = [];
+
+const PLURAL_CATEGORIES: PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+const LOCALE_FIELDS = shape({
+  name: (value) => isString(value) && value.trim().length > 0,
+  code: isString,
+  script: isString,
+  direction: oneOf(['ltr', 'rtl']),
+  font: optional(isString),
+  pluralCategories: optional(arrayOf(oneOf(PLURAL_CATEGORIES))),
+  decimalSeparator: optional(isString),
+  groupSeparator: optional(isString),
+  lowResource: optional(isBoolean),
+});
+
+/** Whether stored or imported data is a usable locale; anything else would break lookups during render. */
+export const isLocale = (value: unknown): value is Locale => LOCALE_FIELDS(value);
+
+/** Built-in languages followed by the user's own, sorted by name. */
+export const getLocales = (): Locale[] =>
+  [...LOCALES.filter(l => !customLocales.some(c => c.name === l.name)), ...customLocales]
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+export const loadCustomLocales = (): Locale[] => {
+  const saved = localStorage.getItem(CUSTOM_LOCALES_KEY);
+  if (saved) {
+    try {
+      const parsed: unknown = JSON.parse(saved);
+      customLocales = Array.isArray(parsed) ? parsed.filter(isLocale).map(locale => ({ ...locale, custom: true })) : [];
+    } catch (e) {
+      console.error("Failed to parse custom languages", e);
+    }
+  }
+  return customLocales;
+};
+
+export const saveCustomLocales = (locales: Locale[]): Locale[] => {
+  customLocales = locales.map(locale => ({ ...locale, custom: true }));
+  localStorage.setItem(CUSTOM_LOCALES_KEY, JSON.stringify(customLocales));
+  return customLocales;
+};
+
+/** The registry entry for a language, or a left-to-right Latin placeholder for names we do not know. */
+export const localeFor = (language: string): Locale =>
+  getLocales().find(l => l.name === language)
+  || { name: language, code: language.toLowerCase(), script: 'Latn', direction: 'ltr' };
+
+export const isKnownLanguage = (language: string) => getLocales().some(l => l.name === language);
+
+/** Key for data kept per language pair, e.g. "English|Spanish". */
+export const languagePair = (sourceLanguage: string, targetLanguage: string) => `${sourceLanguage}|${targetLanguage}`;
+
+export const textDirection = (language: string): 'rtl' | 'ltr' => localeFor(language).direction;
+
+export const isLowResourceLanguage = (language: string) => !!localeFor(language).lowResource;
+
+export const codeForLanguage = (language: string): string => localeFor(language).code;
+
+/** CSS font stack for the language's recommended font, if it has one. */
+export const fontFamilyFor = (language: string): string | undefined => {
+  const font = localeFor(language).font;
+  return font ? `"${font}", sans-serif` : undefined;
+};
+
+/** `dir`, `lang` and font for an element holding text in `language`. */
+export const textAttributes = (language: string) => ({
+  dir: textDirection(language),
+  lang: codeForLanguage(language),
+  style: { fontFamily: fontFamilyFor(language) },
+});
+
+/** Adds the Google Fonts stylesheet for the language's recommended font once per page. */
+export const loadLocaleFont = (language: string) => {
+  const font = localeFor(language).font;
+  if (!font || typeof document === 'undefined') return;
+  const id = `locale-font-${font.replace(/\s+/g, '-').toLowerCase()}`;
+  if (document.getElementById(id)) return;
+  const link = document.createElement('link');
+  link.id = id;
+  link.rel = 'stylesheet';
+  link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(font).replace(/%20/g, '+')}&display=swap`;
+  document.head.appendChild(link);
+};
+
+// Intl silently falls back to the default locale for tags it does not know, so check support first.
+const intlLocale = (code: string, supported: (code: string) => string[]) => {
+  try {
+    return supported(code).length > 0 ? code : 'en';
+  } catch {
+    return 'en';
+  }
+};
+
+export const pluralCategoriesFor = (language: string): PluralCategory[] => {
+  const locale = localeFor(language);
+  if (locale.pluralCategories?.length) return locale.pluralCategories;
+  const tag = intlLocale(locale.code, code => Intl.PluralRules.supportedLocalesOf(code));
+  return new Intl.PluralRules(tag).resolvedOptions().pluralCategories as PluralCategory[];
+};
+
+export const numberSeparatorsFor = (language: string): { decimal: string; group: string } => {
+  const locale = localeFor(language);
+  const tag = intlLocale(locale.code, code => Intl.NumberFormat.supportedLocalesOf(code));
+  const parts = new Intl.NumberFormat(tag).formatToParts(12345.6);
+  return {
+    decimal: locale.decimalSeparator ?? parts.find(p => p.type === 'decimal')?.value ?? '.',
+    group: locale.groupSeparator ?? parts.find(p => p.type === 'group')?.value ?? ',',
+  };
+};
+
+/**
+ * Resolves a BCP-47 tag such as "es-ES" or "zh-TW" to one of our display names.
+ * Returns null when the language is not one we support.
+ */
+export const languageFromCode = (code: string | null | undefined): string | null => {
+  if (!code) return null;
+  const normalized = code.trim().replace(/_/g, '-').toLowerCase();
+  if (!normalized) return null;
+
+  const entries = getLocales().map(l => [l.name, l.code] as const);
+  const exact = entries.find(([, c]) => c.toLowerCase() === normalized);
+  if (exact) return exact[0];
+
+  const [primary, ...rest] = normalized.split('-');
+  if (primary === 'zh') {
+    for (const subtag of rest) {
+      if (subtag === 'hans') return 'Chinese (Simplified)';
+      if (subtag === 'hant') return 'Chinese (Traditional Mandarin)';
+      if (CHINESE_REGIONS[subtag]) return CHINESE_REGIONS[subtag];
+    }
+    return 'Chinese (Simplified)';
+  }
+
+  const byPrimary = entries.find(([, c]) => c.toLowerCase().split('-')[0] === primary);
+  return byPrimary ? byPrimary[0] : null;
+};
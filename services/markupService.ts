@@ -0,0 +1,247 @@
+import { TextSpan, PluralCategory } from '../types';
+
+/**
+ * `placeholder`: a value inserted at runtime ({name}, {0}, {{name}}, ${name}, %1$s, ICU #).
+ * `icu`: the structural part of an ICU plural/select ("{count, plural,", "one {", "}"); branch text stays translatable.
+ * `tag`: an inline HTML/XML tag.
+ */
+export type MarkupKind = 'placeholder' | 'icu' | 'tag';
+
+export interface MarkupToken extends TextSpan {
+  kind: MarkupKind;
+  /** Tag name, lower-cased; only set on tags. */
+  tagName?: string;
+  closing?: boolean;
+  selfClosing?: boolean;
+}
+
+export interface IcuChoice {
+  argument: string;
+  type: 'plural' | 'selectordinal' | 'select';
+  /** Branch keys in source order, e.g. ["=0", "one", "other"]. */
+  selectors: string[];
+  span: TextSpan;
+}
+
+export interface ParsedMarkup {
+  tokens: MarkupToken[];
+  choices: IcuChoice[];
+}
+
+const TEMPLATE_PATTERN = /\{\{\s*[\w.]+\s*\}\}|\$\{[\w.]+\}/y;
+// No space flag: "50% done" is prose, not a format.
+const PRINTF_PATTERN = /%(?:\d+\$)?[-+#0]*\d*(?:\.\d+)?[sdifuxXeEgGcp@%]/y;
+const TAG_PATTERN = /<(\/?)([A-Za-z][\w:-]*)(?:\s[^<>]*?)?(\/?)>/y;
+const ARGUMENT_NAME = /[\p{L}\p{N}_.]+/uy;
+const ARGUMENT_TYPE = /[A-Za-z]+/y;
+const SELECTOR = /=\d+|[\p{L}_][\p{L}\p{N}_-]*/uy;
+const OFFSET = /offset:\s*\d+/y;
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+const matchAt = (pattern: RegExp, text: string, index: number) => {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+};
+
+const skipSpace = (text: string, index: number) => {
+  while (index < text.length && /\s/.test(text[index])) index++;
+  return index;
+};
+
+const span = (text: string, start: number, end: number) => ({ text: text.slice(start, end), start, end });
+
+/**
+ * Reads an ICU argument starting at the "{" at `start`. Returns null when the braces there
+ * are not ICU syntax, so the caller can treat them as plain text.
+ */
+const parseArgument = (text: string, start: number, result: ParsedMarkup): number | null => {
+  const nameMatch = matchAt(ARGUMENT_NAME, text, skipSpace(text, start + 1));
+  if (!nameMatch) return null;
+  const argument = nameMatch[0];
+  let index = skipSpace(text, nameMatch.index + argument.length);
+  if (text[index] === '}') {
+    result.tokens.push({ ...span(text, start, index + 1), kind: 'placeholder' });
+    return index + 1;
+  }
+  if (text[index] !== ',') return null;
+
+  const typeMatch = matchAt(ARGUMENT_TYPE, text, skipSpace(text, index + 1));
+  if (!typeMatch) return null;
+  const type = typeMatch[0];
+  index = skipSpace(text, typeMatch.index + type.length);
+
+  if (type !== 'plural' && type !== 'selectordinal' && type !== 'select') {
+    // Formatted arguments such as {n, number} or {d, date, short} are protected whole.
+    let depth = 1;
+    for (let i = index; i < text.length; i++) {
+      if (text[i] === '{') depth++;
+      if (text[i] === '}' && --depth === 0) {
+        result.tokens.push({ ...span(text, start, i + 1), kind: 'placeholder' });
+        return i + 1;
+      }
+    }
+    return null;
+  }
+
+  if (text[index] !== ',') return null;
+  index++;
+  const offset = matchAt(OFFSET, text, skipSpace(text, index));
+  if (offset) index = offset.index + offset[0].length;
+  const tokens: MarkupToken[] = [{ ...span(text, start, index), kind: 'icu' }];
+  const selectors: string[] = [];
+  const nested: ParsedMarkup = { tokens: [], choices: [] };
+
+  for (;;) {
+    const branchStart = skipSpace(text, index);
+    if (text[branchStart] === '}') {
+      tokens.push({ ...span(text, branchStart, branchStart + 1), kind: 'icu' });
+      result.tokens.push(...tokens, ...nested.tokens);
+      result.choices.push({ argument, type, selectors, span: span(text, start, branchStart + 1) });
+      result.choices.push(...nested.choices);
+      return branchStart + 1;
+    }
+    const selector = matchAt(SELECTOR, text, branchStart);
+    if (!selector) return null;
+    const open = skipSpace(text, branchStart + selector[0].length);
+    if (text[open] !== '{') return null;
+    selectors.push(selector[0]);
+    tokens.push({ ...span(text, branchStart, open + 1), kind: 'icu' });
+    const close = scanMessage(text, open + 1, type !== 'select', nested);
+    if (close === null) return null;
+    tokens.push({ ...span(text, close, close + 1), kind: 'icu' });
+    index = close + 1;
+  }
+};
+
+/**
+ * Collects tokens from `start` to the end of the text, or, inside an ICU branch, up to the
+ * branch's closing brace, whose index is returned. Returns null for an unterminated branch.
+ */
+const scanMessage = (text: string, start: number, inPlural: boolean, result: ParsedMarkup, inBranch = true): number | null => {
+  let index = start;
+  while (index < text.length) {
+    const char = text[index];
+    if (char === '}' && inBranch) return index;
+    if (char === '#' && inPlural) {
+      result.tokens.push({ ...span(text, index, index + 1), kind: 'placeholder' });
+      index++;
+      continue;
+    }
+    const template = (char === '{' || char === '$') && matchAt(TEMPLATE_PATTERN, text, index);
+    if (template) {
+      result.tokens.push({ ...span(text, index, index + template[0].length), kind: 'placeholder' });
+      index += template[0].length;
+      continue;
+    }
+    if (char === '{') {
+      const end = parseArgument(text, index, result);
+      if (end !== null) {
+        index = end;
+        continue;
+      }
+      // An unparseable brace inside a branch would leave its closing brace ambiguous.
+      if (inBranch) return null;
+    }
+    const printf = char === '%' && matchAt(PRINTF_PATTERN, text, index);
+    if (printf) {
+      result.tokens.push({ ...span(text, index, index + printf[0].length), kind: 'placeholder' });
+      index += printf[0].length;
+      continue;
+    }
+    const tag = char === '<' && matchAt(TAG_PATTERN, text, index);
+    if (tag) {
+      const tagName = tag[2].toLowerCase();
+      result.tokens.push({
+        ...span(text, index, index + tag[0].length),
+        kind: 'tag',
+        tagName,
+        closing: tag[1] === '/',
+        selfClosing: tag[3] === '/' || VOID_ELEMENTS.has(tagName),
+      });
+      index += tag[0].length;
+      continue;
+    }
+    index++;
+  }
+  return inBranch ? null : index;
+};
+
+/** Finds the placeholders, tags and ICU structure in a string. Unrecognised braces are left as text. */
+export const parseMarkup = (text: string): ParsedMarkup => {
+  const result: ParsedMarkup = { tokens: [], choices: [] };
+  scanMessage(text, 0, false, result, false);
+  result.tokens.sort((a, b) => a.start - b.start);
+  return result;
+};
+
+/** Tags that close nothing, close the wrong element or are never closed. */
+export const unbalancedTags = (tokens: MarkupToken[]): Array<{ token: MarkupToken; problem: string }> => {
+  const open: MarkupToken[] = [];
+  const problems: Array<{ token: MarkupToken; problem: string }> = [];
+  tokens.filter(token => token.kind === 'tag' && !token.selfClosing).forEach(token => {
+    if (!token.closing) {
+      open.push(token);
+      return;
+    }
+    const index = open.map(t => t.tagName).lastIndexOf(token.tagName);
+    if (index === -1) {
+      problems.push({ token, problem: `Closing ${token.text} has no opening tag` });
+      return;
+    }
+    open.splice(index).slice(1).forEach(inner =>
+      problems.push({ token: inner, problem: `${inner.text} is not closed before ${token.text}` }));
+  });
+  open.forEach(token => problems.push({ token, problem: `${token.text} is never closed` }));
+  return problems.sort((a, b) => a.token.start - b.token.start);
+};
+
+/** Plural categories a plural choice is missing or has no use for in the given language. Exact (=N) branches are ignored. */
+export const comparePluralBranches = (choice: IcuChoice, categories: PluralCategory[]) => {
+  const present = choice.selectors.filter(selector => !selector.startsWith('='));
+  return {
+    missing: categories.filter(category => !present.includes(category)),
+    unused: present.filter(selector => !categories.includes(selector as PluralCategory)),
+  };
+};
+
+export interface MaskedText {
+  text: string;
+  /** Markers in the masked text, in order, with the markup each stands for. */
+  markers: Array<{ marker: string; original: string; start: number }>;
+}
+
+/**
+ * Replaces markup with numbered markers such as ⟦1⟧ that models leave alone. Identical markup
+ * gets the same marker in every text masked by one masker, so source and target stay comparable.
+ */
+export const createMasker = () => {
+  const ids = new Map<string, number>();
+  const originals = new Map<string, string>();
+
+  const mask = (text: string): MaskedText => {
+    const markers: MaskedText['markers'] = [];
+    let masked = '';
+    let cursor = 0;
+    parseMarkup(text).tokens.forEach(token => {
+      if (!ids.has(token.text)) ids.set(token.text, ids.size + 1);
+      const marker = `⟦${ids.get(token.text)}⟧`;
+      originals.set(marker, token.text);
+      masked += text.slice(cursor, token.start);
+      markers.push({ marker, original: token.text, start: masked.length });
+      masked += marker;
+      cursor = token.end;
+    });
+    return { text: masked + text.slice(cursor), markers };
+  };
+
+  /** Puts the markup back into any text the model wrote, such as feedback or a suggested target. */
+  const unmask = (text: string) => text.replace(/⟦\d+⟧/g, marker => originals.get(marker) ?? marker);
+
+  return { mask, unmask, hasMarkup: () => ids.size > 0 };
+};
+
+/** Maps an offset in masked text back to the original it was made from. */
+export const unmaskOffset = (masked: MaskedText, offset: number) =>
+  masked.markers.reduce((result, { marker, original, start }) =>
+    start + marker.length <= offset ? result + original.length - marker.length : result, offset);
@@ -0,0 +1,88 @@
+import { MemoryEntry, MemoryMatch } from '../types';
+import { getAllByIndex, putAll, deleteKeys } from './idb';
+import { diffWords, tokenize } from './diffService';
+import { languagePair } from './languageService';
+
+export const MIN_FUZZY_SCORE = 60;
+
+export const createMemoryEntry = (
+  sourceLanguage: string,
+  targetLanguage: string,
+  sourceText: string,
+  targetText: string,
+  origin: MemoryEntry['origin']
+): MemoryEntry => {
+  const pair = languagePair(sourceLanguage, targetLanguage);
+  const source = sourceText.trim();
+  const target = targetText.trim();
+  return {
+    // One entry per distinct translation, so re-approving the same pair just refreshes it.
+    id: `${pair}|${source}|${target}`,
+    pair,
+    sourceLanguage,
+    targetLanguage,
+    sourceText: source,
+    targetText: target,
+    origin,
+    updatedAt: Date.now(),
+  };
+};
+
+export const loadMemory = (sourceLanguage: string, targetLanguage: string) =>
+  getAllByIndex<MemoryEntry>('memory', 'pair', languagePair(sourceLanguage, targetLanguage));
+
+export const addToMemory = (entries: MemoryEntry[]) => putAll('memory', entries);
+
+export const removeFromMemory = (ids: string[]) => deleteKeys('memory', ids);
+
+const words = (text: string) => tokenize(text.toLowerCase()).filter(token => token.trim());
+
+const editDistance = (a: string[], b: string[]) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** Word-level similarity in percent. Only identical text scores 100. */
+export const similarity = (a: string, b: string) => {
+  if (a.trim() === b.trim()) return 100;
+  const tokensA = words(a);
+  const tokensB = words(b);
+  const longest = Math.max(tokensA.length, tokensB.length);
+  if (longest === 0) return 0;
+  const score = Math.round(100 * (1 - editDistance(tokensA, tokensB) / longest));
+  return Math.min(score, 99);
+};
+
+export const findFuzzyMatches = (
+  sourceText: string,
+  entries: MemoryEntry[],
+  minScore = MIN_FUZZY_SCORE,
+  limit = 3
+): MemoryMatch[] => {
+  const length = words(sourceText).length;
+  if (length === 0) return [];
+  // A length ratio below the threshold can never reach it, so skip those entries before the O(n·m) distance.
+  const minRatio = minScore / 100;
+
+  return entries
+    .filter(entry => {
+      const other = words(entry.sourceText).length;
+      return Math.min(length, other) / Math.max(length, other) >= minRatio;
+    })
+    .map(entry => ({ entry, score: similarity(sourceText, entry.sourceText) }))
+    .filter(({ score }) => score >= minScore)
+    .sort((a, b) => b.score - a.score || b.entry.updatedAt - a.entry.updatedAt)
+    .slice(0, limit)
+    .map(({ entry, score }) => ({ entry, score, sourceDiff: diffWords(entry.sourceText, sourceText) }));
+};
@@ -0,0 +1,99 @@
+import { AIProvider, ProviderError, parseRetryAfter } from './aiProvider';
+import { isRecord } from './jsonUtils';
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+/**
+ * Content of the first choice: `delta` of a streamed chunk or `message` of a whole response.
+ * Throws when the model refused or the content filter stopped it.
+ */
+const readChoice = (data: unknown, part: 'delta' | 'message'): string => {
+  const choices = isRecord(data) && Array.isArray(data.choices) ? data.choices : [];
+  const choice: unknown = choices[0];
+  const body: unknown = isRecord(choice) ? choice[part] : null;
+  const refusal = isRecord(body) && typeof body.refusal === 'string' ? body.refusal : '';
+  if ((isRecord(choice) && choice.finish_reason === 'content_filter') || refusal) {
+    throw new ProviderError(refusal || 'Blocked by content filter', { code: 'blocked' });
+  }
+  return isRecord(body) && typeof body.content === 'string' ? body.content : '';
+};
+
+/** Accumulates `delta.content` from a server-sent event stream of chat completion chunks. */
+const readEventStream = async (body: ReadableStream<Uint8Array>, onText?: (text: string) => void): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.trim().replace(/^data:\s*/, '');
+      if (!line.trim().startsWith('data:') || !data) continue;
+      if (data === '[DONE]') return text;
+      const content = readChoice(JSON.parse(data), 'delta');
+      if (content) {
+        text += content;
+        onText?.(text);
+      }
+    }
+  }
+  return text;
+};
+
+/**
+ * Any server exposing the OpenAI Chat Completions API: OpenAI itself, Azure-style proxies,
+ * or self-hosted runtimes such as Ollama, LM Studio, vLLM and llama.cpp on localhost.
+ */
+export const openAiProvider: AIProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  suggestedModels: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'llama3.1', 'qwen2.5'],
+  requiresKey: false,
+
+  generateJson: async ({ prompt, schema, schemaName, signal, onText }, config) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${trimSlash(config.baseUrl || openAiProvider.defaultBaseUrl)}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model || openAiProvider.defaultModel,
+        messages: [
+          { role: 'system', content: 'You are a professional translation reviewer. Reply with JSON only.' },
+          { role: 'user', content: prompt },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: schemaName, schema, strict: true },
+        },
+        stream: true,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new ProviderError(`${response.status} ${response.statusText}: ${body.substring(0, 300)}`, {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+      });
+    }
+
+    // Some compatible servers ignore `stream` and answer with a single JSON body.
+    let text: string | undefined;
+    if (response.body && !(response.headers.get('content-type') || '').includes('application/json')) {
+      text = await readEventStream(response.body, onText);
+    } else {
+      text = readChoice(await response.json(), 'message');
+    }
+    if (!text) throw new ProviderError("Empty response from AI", { code: 'bad_response' });
+    return text;
+  },
+};
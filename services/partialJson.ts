@@ -0,0 +1,50 @@
+interface CutPoint {
+  end: number;
+  closers: string;
+}
+
+/**
+ * Best-effort parse of a JSON document that is still arriving. Open strings, arrays and objects
+ * are closed; a trailing member that cannot be completed (a half-written key or literal) is
+ * dropped by falling back to the last comma or opening bracket. Returns undefined when nothing
+ * usable has arrived yet.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const stack: string[] = [];
+  const cuts: CutPoint[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+      cuts.push({ end: i + 1, closers: [...stack].reverse().join('') });
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+    } else if (char === ',') {
+      cuts.push({ end: i, closers: [...stack].reverse().join('') });
+    }
+  }
+
+  const closers = [...stack].reverse().join('');
+  // An unfinished escape sequence would corrupt the closing quote.
+  const tail = inString ? text.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '') + '"' : text;
+  const candidates = [tail + closers, ...cuts.reverse().map(cut => text.substring(0, cut.end) + cut.closers)];
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next, shorter candidate.
+    }
+  }
+  return undefined;
+};
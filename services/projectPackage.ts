@@ -0,0 +1,237 @@
+import {
+  Project,
+  ProjectPackage,
+  Locale,
+  Segment,
+  SegmentStatus,
+  SegmentCategory,
+  IssueSeverity,
+  RevisionOrigin,
+  DriftLevel,
+  SegmentConflict,
+  SkippedItem,
+  SubtitleFormat,
+  ProjectSettings,
+  Register,
+} from '../types';
+import { upgradeProject, PROJECT_SCHEMA_VERSION } from './projectService';
+import { DEFAULT_QA_SETTINGS } from './qaService';
+import { Check, isRecord, isString, isNumber, isBoolean, oneOf, optional, arrayOf, either, shape } from './jsonUtils';
+import { isLocale } from './languageService';
+
+export const PACKAGE_FORMAT = 'bilingual-proofreader-project';
+/** Version of the package envelope. The project inside carries its own schemaVersion. */
+export const PACKAGE_FORMAT_VERSION = 1;
+
+export interface ParsedPackage {
+  pkg: ProjectPackage;
+  /** Segments left out because they do not match the Segment model. */
+  skipped: SkippedItem[];
+  details: string[];
+}
+
+const REVISION_ORIGINS: RevisionOrigin[] = ['initial', 'edit', 'analysis', 'suggestion', 'restore'];
+const DRIFT_LEVELS: DriftLevel[] = ['none', 'minor', 'major'];
+const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt'];
+const REGISTERS: Register[] = ['unspecified', 'formal', 'neutral', 'informal'];
+const STATUSES = Object.values(SegmentStatus);
+const CATEGORIES = Object.values(SegmentCategory);
+
+const span = shape({ text: isString, start: isNumber, end: isNumber });
+
+// Keyed by every Segment field, so adding one to the model without a check here fails to compile.
+const SEGMENT_FIELDS: Record<keyof Segment, Check> = {
+  id: (value) => isString(value) && (value as string).length > 0,
+  sourceText: isString,
+  targetText: isString,
+  status: oneOf(STATUSES),
+  category: oneOf(CATEGORIES),
+  aiFeedback: optional(isString),
+  wordBreakdown: optional(arrayOf(shape({ targetWord: isString, sourceEquivalent: isString, context: isString }))),
+  issues: optional(arrayOf(shape({
+    category: oneOf(CATEGORIES),
+    severity: oneOf(Object.values(IssueSeverity)),
+    description: isString,
+    sourceSpan: optional(span),
+    targetSpan: optional(span),
+    suggestion: isString,
+    resolved: optional(isBoolean),
+  }))),
+  suggestedTarget: optional(isString),
+  aiRevised: optional(isBoolean),
+  history: optional(arrayOf(shape({
+    timestamp: isNumber,
+    origin: oneOf(REVISION_ORIGINS),
+    targetText: isString,
+    status: oneOf(STATUSES),
+    category: oneOf(CATEGORIES),
+  }))),
+  cachedAt: optional(isNumber),
+  promptVersion: optional(isNumber),
+  backTranslation: optional(shape({
+    language: isString,
+    text: isString,
+    sentences: arrayOf(shape({ source: isString, backTranslation: isString, drift: oneOf(DRIFT_LEVELS), note: isString })),
+    targetText: isString,
+    createdAt: isNumber,
+  })),
+  isAnalyzing: optional(isBoolean),
+  isBackTranslating: optional(isBoolean),
+  analysisError: optional(shape({ code: isString, message: isString, timestamp: isNumber })),
+  origin: optional(either(
+    shape({ format: oneOf(['xliff']), unitId: isString }),
+    shape({ format: oneOf(SUBTITLE_FORMATS), start: isNumber, end: isNumber, cueId: optional(isString), settings: optional(isString) })
+  )),
+};
+
+// Keyed like SEGMENT_FIELDS, so a new project setting needs a check before this compiles.
+const SETTINGS_FIELDS: Record<keyof ProjectSettings, Check> = {
+  styleGuide: isString,
+  register: oneOf(REGISTERS),
+  domain: isString,
+  audience: isString,
+  promptTemplates: (value) => arrayOf(shape({ version: isNumber, text: isString, createdAt: isNumber }))(value) && (value as unknown[]).length > 0,
+  activePromptVersion: isNumber,
+};
+
+const PROJECT_FIELDS: Record<string, Check> = {
+  id: isString,
+  name: isString,
+  sourceLanguage: isString,
+  targetLanguage: isString,
+  document: optional(either(
+    shape({ format: oneOf(['xliff']), version: oneOf(['1.2', '2.0']), fileName: isString, content: isString }),
+    shape({ format: oneOf(SUBTITLE_FORMATS), fileName: isString, content: isString })
+  )),
+  settings: shape(SETTINGS_FIELDS),
+  qaSettings: shape(Object.fromEntries(Object.keys(DEFAULT_QA_SETTINGS).map(id => [id, isBoolean]))),
+  archived: isBoolean,
+  createdAt: isNumber,
+  updatedAt: isNumber,
+};
+
+const invalidFields = (value: object, fields: Record<string, Check>) =>
+  Object.entries(fields).filter(([key, check]) => !check((value as Record<string, unknown>)[key])).map(([key]) => key);
+
+export const exportProjectPackage = (project: Project, locales: Locale[]): string => {
+  const pkg: ProjectPackage = {
+    format: PACKAGE_FORMAT,
+    formatVersion: PACKAGE_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    project: {
+      ...project,
+      segments: project.segments.map(({ isBackTranslating, ...segment }) => ({ ...segment, isAnalyzing: false })),
+    },
+    locales: locales.filter(locale =>
+      locale.custom && (locale.name === project.sourceLanguage || locale.name === project.targetLanguage)),
+  };
+  return JSON.stringify(pkg, null, 2);
+};
+
+/**
+ * Reads a project package, upgrading older project schemas. A saved workspace from before
+ * projects existed (a bare segment array or `{ sourceLanguage, targetLanguage, segments }`) is accepted too.
+ * Throws when the file is not a package at all; individual invalid segments are skipped and reported.
+ */
+export const parseProjectPackage = (content: string): ParsedPackage => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  let envelope: Record<string, unknown>;
+  if (isRecord(data) && data.format === PACKAGE_FORMAT) {
+    if (!isNumber(data.formatVersion) || data.formatVersion > PACKAGE_FORMAT_VERSION) {
+      throw new Error(`This package was created by a newer version of the app (format ${data.formatVersion}).`);
+    }
+    envelope = data;
+  } else if (Array.isArray(data)) {
+    envelope = { project: { segments: data }, locales: [] };
+  } else if (isRecord(data) && Array.isArray(data.segments)) {
+    envelope = { project: data, locales: [] };
+  } else {
+    throw new Error('The file is not a project package.');
+  }
+
+  const raw = envelope.project;
+  if (!isRecord(raw) || !Array.isArray(raw.segments)) throw new Error('The package has no segment list.');
+
+  const details: string[] = [];
+  const fromVersion = isNumber(raw.schemaVersion) ? raw.schemaVersion : 0;
+  const project = upgradeProject(raw);
+  if (fromVersion < PROJECT_SCHEMA_VERSION) {
+    details.push(`Upgraded from project schema ${fromVersion} to ${PROJECT_SCHEMA_VERSION}`);
+  }
+
+  const badProjectFields = invalidFields(project, PROJECT_FIELDS);
+  if (badProjectFields.length > 0) {
+    throw new Error(`The project has invalid fields: ${badProjectFields.join(', ')}.`);
+  }
+
+  const skipped: SkippedItem[] = [];
+  const seen = new Set<string>();
+  const segments = project.segments.filter((segment, index) => {
+    const label = typeof segment.id === 'string' && segment.id ? segment.id : `#${index + 1}`;
+    const badFields = invalidFields(segment, SEGMENT_FIELDS);
+    if (badFields.length > 0) {
+      skipped.push({ id: label, reason: `Invalid ${badFields.join(', ')}` });
+      return false;
+    }
+    if (seen.has(segment.id)) {
+      skipped.push({ id: label, reason: 'Duplicate segment id' });
+      return false;
+    }
+    seen.add(segment.id);
+    return true;
+  }).map(segment => ({ ...segment, aiFeedback: segment.aiFeedback ?? null }));
+
+  const locales: Locale[] = Array.isArray(envelope.locales) ? envelope.locales.filter(isLocale) : [];
+
+  return {
+    pkg: {
+      format: PACKAGE_FORMAT,
+      formatVersion: PACKAGE_FORMAT_VERSION,
+      exportedAt: isNumber(envelope.exportedAt) ? envelope.exportedAt : project.updatedAt,
+      project: { ...project, segments },
+      locales: locales.map(locale => ({ ...locale, custom: true })),
+    },
+    skipped,
+    details,
+  };
+};
+
+// Review content compared when the same segment id exists on both sides; history and flags are not.
+const COMPARED_FIELDS: Array<keyof Segment> = [
+  'sourceText', 'targetText', 'status', 'category', 'aiFeedback', 'wordBreakdown', 'issues', 'suggestedTarget', 'backTranslation',
+];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Combines imported segments with existing ones by id. Segments only in the import are appended.
+ * When both sides differ, `merge` keeps the existing segment and `replace` takes the imported one; either way it is reported.
+ */
+export const combineSegments = (current: Segment[], incoming: Segment[], mode: 'merge' | 'replace') => {
+  const pending = new Map(incoming.map(segment => [segment.id, segment]));
+  const conflicts: SegmentConflict[] = [];
+  let unchanged = 0;
+
+  const combined = current.map(segment => {
+    const other = pending.get(segment.id);
+    if (!other) return segment;
+    pending.delete(segment.id);
+    const fields = COMPARED_FIELDS.filter(field => !sameValue(segment[field], other[field]));
+    if (fields.length === 0) {
+      unchanged++;
+      return segment;
+    }
+    const kept = mode === 'replace' ? 'imported' : 'current';
+    conflicts.push({ id: segment.id, fields, kept });
+    return kept === 'imported' ? other : segment;
+  });
+
+  const added = [...pending.values()];
+  return { segments: [...combined, ...added], added: added.length, unchanged, conflicts };
+};
@@ -0,0 +1,211 @@
+import { Project, ProjectSummary, Segment, SegmentStatus, SegmentCategory } from '../types';
+import { DEFAULT_SEGMENTS, DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE } from '../constants';
+import { getAll, getByKey, putAll, deleteKeys } from './idb';
+import { DEFAULT_PROJECT_SETTINGS } from './promptService';
+import { DEFAULT_QA_SETTINGS } from './qaService';
+import { isRecord } from './jsonUtils';
+
+/** Layout of stored project records. Bump it and add a step to PROJECT_MIGRATIONS whenever Project changes shape. */
+export const PROJECT_SCHEMA_VERSION = 1;
+
+const ACTIVE_PROJECT_KEY = 'bilingual_proofreader_active_project_v1';
+
+// Everything a project holds used to live in these localStorage keys, one working set per browser.
+const LEGACY_KEYS = {
+  data: 'bilingual_proofreader_data_v1',
+  language: 'bilingual_proofreader_lang_v1',
+  document: 'bilingual_proofreader_document_v1',
+  qaSettings: 'bilingual_proofreader_qa_v1',
+  projectSettings: 'bilingual_proofreader_project_v1',
+};
+const UNREADABLE_DATA_KEY = 'bilingual_proofreader_data_v1_unreadable';
+
+const generateProjectId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 9)}`;
+
+const defaultSegments = (): Segment[] => DEFAULT_SEGMENTS.map(s => ({
+  ...s,
+  status: s.status as SegmentStatus,
+  category: s.category as SegmentCategory,
+}));
+
+/** A project as read from storage or a file, before it has been upgraded. */
+type StoredProject = Record<string, unknown>;
+
+const stringOr = (value: unknown, fallback: string) => (typeof value === 'string' && value ? value : fallback);
+
+/** Steps keyed by the schema version they upgrade from. Version 0 is the pre-project localStorage workspace. */
+const PROJECT_MIGRATIONS: Record<number, (record: StoredProject) => StoredProject> = {
+  0: (legacy) => {
+    const now = Date.now();
+    return {
+      id: stringOr(legacy.id, generateProjectId()),
+      name: stringOr(legacy.name, 'Untitled project'),
+      sourceLanguage: stringOr(legacy.sourceLanguage, DEFAULT_SOURCE_LANGUAGE),
+      targetLanguage: stringOr(legacy.targetLanguage, DEFAULT_TARGET_LANGUAGE),
+      segments: Array.isArray(legacy.segments) ? legacy.segments : defaultSegments(),
+      document: legacy.document || null,
+      settings: legacy.settings || DEFAULT_PROJECT_SETTINGS,
+      qaSettings: legacy.qaSettings || DEFAULT_QA_SETTINGS,
+      archived: false,
+      createdAt: typeof legacy.createdAt === 'number' ? legacy.createdAt : now,
+      updatedAt: typeof legacy.updatedAt === 'number' ? legacy.updatedAt : now,
+    };
+  },
+};
+
+/**
+ * Brings a stored record up to the current schema. Throws for records that are not objects or were
+ * written by a newer version of the app. Only the schema is upgraded here; records from outside
+ * the app are checked field by field in projectPackage before they get this far.
+ */
+export const upgradeProject = (record: unknown): Project => {
+  if (!isRecord(record)) throw new Error('Saved project is not readable.');
+  let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`"${String(record.name || record.id)}" was saved by a newer version of the app (schema ${version}).`);
+  }
+  let project = record;
+  for (; version < PROJECT_SCHEMA_VERSION; version++) {
+    project = PROJECT_MIGRATIONS[version](project);
+  }
+  const settings = isRecord(project.settings) ? project.settings : {};
+  const templates = settings.promptTemplates;
+  return {
+    ...project,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    // Checks and template fields added since the project was saved start from their defaults.
+    settings: {
+      ...DEFAULT_PROJECT_SETTINGS,
+      ...settings,
+      promptTemplates: Array.isArray(templates) && templates.length ? templates : DEFAULT_PROJECT_SETTINGS.promptTemplates,
+    },
+    qaSettings: { ...DEFAULT_QA_SETTINGS, ...(isRecord(project.qaSettings) ? project.qaSettings : {}) },
+    // A check or back-translation still running when the project was saved will never finish.
+    segments: (Array.isArray(project.segments) ? project.segments : [])
+      .map(segment => ({ ...(isRecord(segment) ? segment : {}), isAnalyzing: false, isBackTranslating: false })),
+  } as Project;
+};
+
+export const createProject = (
+  name: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  segments: Segment[] = defaultSegments()
+): Project => {
+  const now = Date.now();
+  return {
+    id: generateProjectId(),
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    name,
+    sourceLanguage,
+    targetLanguage,
+    segments,
+    document: null,
+    settings: DEFAULT_PROJECT_SETTINGS,
+    qaSettings: DEFAULT_QA_SETTINGS,
+    archived: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const duplicateProject = (project: Project): Project => {
+  const now = Date.now();
+  return { ...project, id: generateProjectId(), name: `${project.name} (copy)`, archived: false, createdAt: now, updatedAt: now };
+};
+
+export const summarizeProject = ({ segments, document, ...summary }: Project): ProjectSummary => ({
+  ...summary,
+  segmentCount: segments.length,
+});
+
+/** Most recently updated first. Records that cannot be read are left in place and reported in the console. */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await getAll<unknown>('projects');
+  return records
+    .flatMap(record => {
+      try {
+        return [summarizeProject(upgradeProject(record))];
+      } catch (e) {
+        console.error("Skipped unreadable project", e);
+        return [];
+      }
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<Project> => {
+  const record = await getByKey<unknown>('projects', id);
+  if (!record) throw new Error('Project not found.');
+  return upgradeProject(record);
+};
+
+export const saveProject = (project: Project) => putAll('projects', [project]);
+
+export const deleteProject = (id: string) => deleteKeys('projects', [id]);
+
+export const getActiveProjectId = () => localStorage.getItem(ACTIVE_PROJECT_KEY);
+
+export const setActiveProjectId = (id: string) => localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+
+const readLegacyJson = (key: string, label: string): unknown => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return undefined;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to parse saved ${label}`, e);
+    return undefined;
+  }
+};
+
+/** The single working set saved before projects existed, as a schema-0 record, or null when there is none. */
+export const readLegacyWorkspace = (): StoredProject | null => {
+  if (!Object.values(LEGACY_KEYS).some(key => localStorage.getItem(key) !== null)) return null;
+
+  const data = readLegacyJson(LEGACY_KEYS.data, 'segments');
+  if (data === undefined && localStorage.getItem(LEGACY_KEYS.data)) {
+    // Kept aside rather than dropped, so unreadable work can still be recovered by hand.
+    localStorage.setItem(UNREADABLE_DATA_KEY, localStorage.getItem(LEGACY_KEYS.data)!);
+  }
+  // Older versions stored a bare segment array and kept the target language under its own key.
+  const workspace: StoredProject = Array.isArray(data) ? { segments: data } : isRecord(data) ? data : {};
+  return {
+    name: 'My project',
+    sourceLanguage: workspace.sourceLanguage,
+    targetLanguage: workspace.targetLanguage || localStorage.getItem(LEGACY_KEYS.language) || undefined,
+    segments: workspace.segments,
+    document: readLegacyJson(LEGACY_KEYS.document, 'document'),
+    settings: readLegacyJson(LEGACY_KEYS.projectSettings, 'project settings'),
+    qaSettings: readLegacyJson(LEGACY_KEYS.qaSettings, 'QA settings'),
+  };
+};
+
+const clearLegacyWorkspace = () => Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+
+/**
+ * Opens the project to show on startup: the last active one, else the most recently updated.
+ * On first run the localStorage working set is moved into a project; it is only removed once that project is saved.
+ */
+export const openStartupProject = async (): Promise<Project> => {
+  const legacy = readLegacyWorkspace();
+  if (legacy) {
+    await saveProject(upgradeProject(legacy));
+    clearLegacyWorkspace();
+  }
+
+  const projects = await listProjects();
+  const activeId = getActiveProjectId();
+  const active = projects.find(p => p.id === activeId) || projects.find(p => !p.archived) || projects[0];
+  if (active) return loadProject(active.id);
+
+  const project = createProject('My project', DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE);
+  await saveProject(project);
+  return project;
+};
+
+/** Used when IndexedDB cannot be opened: the legacy working set, or a fresh project, held in memory only. */
+export const fallbackProject = (): Project => {
+  const legacy = readLegacyWorkspace();
+  return legacy ? upgradeProject(legacy) : createProject('My project', DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE);
+};
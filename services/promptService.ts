@@ -0,0 +1,93 @@
+import { ProjectSettings, PromptTemplate, Register } from '../types';
+
+export const REGISTER_LABELS: Record<Register, string> = {
+  unspecified: 'Not specified',
+  formal: 'Formal',
+  neutral: 'Neutral',
+  informal: 'Informal',
+};
+
+export const DEFAULT_AUDIT_TEMPLATE = `Audit this {{sourceLanguage}} to {{targetLanguage}} translation.
+{{sourceLanguage}} SOURCE: "{{sourceText}}"
+{{targetLanguage}} TARGET: "{{targetText}}"
+
+{{projectInstructions}}
+
+{{glossary}}
+
+TASKS:
+1. Feedback: Summarize accuracy and style errors.
+2. Breakdown: Provide a word-by-word mapping for every word in the target translation.
+3. Issues: List every error separately. For each give its category, severity (minor, major or critical),
+   a short description, the exact offending TARGET substring copied verbatim with its 0-based character
+   offset, the related SOURCE substring with its offset (empty string and -1 if none), and a suggested fix.
+   Return an empty list when the translation is correct.
+4. Suggested target: The full corrected {{targetLanguage}} translation with every issue fixed, changing as
+   little as possible. Return the target unchanged when it needs no correction.`;
+
+export const PROMPT_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: 'sourceLanguage', description: 'Source language name' },
+  { name: 'targetLanguage', description: 'Target language name' },
+  { name: 'sourceText', description: 'Segment source text' },
+  { name: 'targetText', description: 'Segment target text' },
+  { name: 'glossary', description: 'Glossary terms found in the source, with instructions' },
+  { name: 'projectInstructions', description: 'Register, domain, audience and style guide as one block' },
+  { name: 'styleGuide', description: 'Client style guide text' },
+  { name: 'register', description: 'Register / formality' },
+  { name: 'domain', description: 'Subject domain' },
+  { name: 'audience', description: 'Intended audience' },
+];
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  styleGuide: '',
+  register: 'unspecified',
+  domain: '',
+  audience: '',
+  promptTemplates: [{ version: 1, text: DEFAULT_AUDIT_TEMPLATE, createdAt: 0 }],
+  activePromptVersion: 1,
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const activePromptTemplate = (settings: ProjectSettings): PromptTemplate =>
+  settings.promptTemplates.find(t => t.version === settings.activePromptVersion)
+  || settings.promptTemplates[settings.promptTemplates.length - 1]
+  || DEFAULT_PROJECT_SETTINGS.promptTemplates[0];
+
+/** Appends `text` as a new template version and makes it the active one. */
+export const addPromptVersion = (settings: ProjectSettings, text: string): ProjectSettings => {
+  const version = Math.max(0, ...settings.promptTemplates.map(t => t.version)) + 1;
+  return {
+    ...settings,
+    promptTemplates: [...settings.promptTemplates, { version, text, createdAt: Date.now() }],
+    activePromptVersion: version,
+  };
+};
+
+export const unknownVariables = (text: string): string[] => {
+  const known = new Set(PROMPT_VARIABLES.map(v => v.name));
+  return Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), m => m[1]).filter(name => !known.has(name))));
+};
+
+/** The project settings as prompt text, or an empty string when none are set. */
+export const projectInstructions = (settings: ProjectSettings): string => {
+  const lines = [
+    settings.register !== 'unspecified' ? `- Register: ${REGISTER_LABELS[settings.register].toLowerCase()}` : null,
+    settings.domain.trim() ? `- Domain: ${settings.domain.trim()}` : null,
+    settings.audience.trim() ? `- Audience: ${settings.audience.trim()}` : null,
+    settings.styleGuide.trim() ? `- Style guide:\n${settings.styleGuide.trim()}` : null,
+  ].filter(Boolean);
+  if (lines.length === 0) return '';
+  return `PROJECT INSTRUCTIONS (report any departure as an issue in the matching category, usually Style):\n${lines.join('\n')}`;
+};
+
+/**
+ * Fills `{{variable}}` placeholders; unknown names are left as written. A placeholder on a line of
+ * its own disappears with its line when its value is empty, so optional blocks leave no gaps.
+ */
+export const renderTemplate = (text: string, variables: Record<string, string>): string =>
+  text
+    .replace(/^[ \t]*\{\{\s*(\w+)\s*\}\}[ \t]*(?:\n|$)/gm, (match, name: string) => (variables[name] === '' ? '' : match))
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(VARIABLE_PATTERN, (match, name: string) => (name in variables ? variables[name] : match))
+    .trim();
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { Segment, SegmentStatus, SegmentCategory } from '../types';
+import { buildQaContext, runQaChecks, DEFAULT_QA_SETTINGS } from './qaService';
+
+const segment = (sourceText: string, targetText: string): Segment => ({
+  id: '1',
+  sourceText,
+  targetText,
+  status: SegmentStatus.Pending,
+  category: SegmentCategory.None,
+  aiFeedback: null,
+  wordBreakdown: [],
+  isAnalyzing: false,
+});
+
+const numberFindings = (sourceText: string, targetText: string, targetLanguage = 'French') => {
+  const checked = segment(sourceText, targetText);
+  return runQaChecks(checked, DEFAULT_QA_SETTINGS, buildQaContext([checked], [], 'English', targetLanguage))
+    .filter(finding => finding.checkId === 'numbers');
+};
+
+describe('numbers check', () => {
+  it('reads a French number grouped with an ordinary space', () => {
+    expect(numberFindings('Total: 1,000.50 EUR', 'Total : 1 000,50 EUR')).toEqual([]);
+  });
+
+  it('accepts the narrow no-break space French prescribes', () => {
+    expect(numberFindings('Total: 1,000.50 EUR', 'Total : 1\u202F000,50 EUR')).toEqual([]);
+  });
+
+  it('flags a decimal number written as a different value', () => {
+    const findings = numberFindings('Version 1.5 is out', 'La version 15 est sortie');
+    expect(findings.map(finding => finding.message)).toEqual(['Missing number 1.5', 'Unexpected number 15']);
+  });
+
+  it('compares values across decimal conventions', () => {
+    expect(numberFindings('It weighs 2.5 kg and costs 1,200 EUR', 'Pesa 2,5 kg y cuesta 1.200 EUR', 'Spanish')).toEqual([]);
+    expect(numberFindings('It weighs 2.5 kg', 'Pesa 25 kg', 'Spanish')).toHaveLength(2);
+  });
+
+  it('reads Indian digit grouping', () => {
+    expect(numberFindings('Population: 100,000', 'जनसंख्या: 1,00,000', 'Hindi')).toEqual([]);
+  });
+});
@@ -0,0 +1,316 @@
+import { Segment, QaCheckId, QaFinding, QaSettings, GlossaryEntry, TextSpan } from '../types';
+import { checkTerminology } from './glossaryService';
+import { parseMarkup, unbalancedTags, comparePluralBranches, MarkupKind } from './markupService';
+import { pluralCategoriesFor, numberSeparatorsFor } from './languageService';
+import { escapeRegExp } from './textUtils';
+import { SUBTITLE_LIMITS, subtitleTiming, visibleLines, charactersPerSecond } from './subtitleService';
+
+export interface QaContext {
+  glossary: GlossaryEntry[];
+  /** Normalised source text -> distinct targets used for it across the working set. */
+  targetsBySource: Map<string, Set<string>>;
+  targetLanguage: string;
+  /** Decimal and group separators of each side, for reading numbers. */
+  sourceNumbers: NumberSeparators;
+  targetNumbers: NumberSeparators;
+}
+
+type NumberSeparators = ReturnType<typeof numberSeparatorsFor>;
+
+interface QaCheck {
+  id: QaCheckId;
+  label: string;
+  description: string;
+  run: (segment: Segment, context: QaContext) => QaFinding[];
+}
+
+// End punctuation is compared by function, so a Hindi danda may close a sentence ending in "."
+const END_PUNCTUATION: Record<string, string> = {
+  '.': 'period', '。': 'period', '।': 'period', '۔': 'period', '॥': 'period', '։': 'period',
+  '?': 'question', '？': 'question', '؟': 'question', '\u037E': 'question',
+  '!': 'exclamation', '！': 'exclamation',
+  ':': 'colon', '：': 'colon',
+  '；': 'semicolon', '؛': 'semicolon',
+  '…': 'ellipsis',
+};
+
+const matchSpans = (text: string, pattern: RegExp): TextSpan[] =>
+  Array.from(text.matchAll(pattern)).map(m => ({ text: m[0], start: m.index!, end: m.index! + m[0].length }));
+
+/** A span of text plus the key it is compared by, so "1,5" and "1.5" can be the same number. */
+interface Token extends TextSpan {
+  key: string;
+}
+
+// Placeholders and tags come from the same parser as the protected chips, so QA and the editor agree.
+const markupTokens = (text: string, kind: MarkupKind, normalize: (token: string) => string = token => token): Token[] =>
+  parseMarkup(text).tokens
+    .filter(token => token.kind === kind)
+    .map(({ text: token, start, end }) => ({ text: token, start, end, key: normalize(token) }));
+
+// Attributes may differ between languages (a translated title, say); the tag itself may not.
+const normalizeTag = (token: string) => token.replace(/\s.*?(\/?)>$/, '$1>');
+
+/**
+ * Numbers as the language writes them, keyed by their value. Where a language groups digits with a
+ * space, any space counts, since typists rarely enter the no-break space the locale prescribes.
+ */
+const numberTokens = (text: string, { decimal, group }: NumberSeparators): Token[] => {
+  const groups = /\s/.test(group) ? ' \u00A0\u202F' : group;
+  const separator = `[${escapeRegExp(groups)}]`;
+  const fraction = `(?:${escapeRegExp(decimal)}\\d+)?`;
+  // Indian grouping puts two digits between separators above the thousands.
+  const pattern = new RegExp(`\\d{1,3}(?:${separator}\\d{2})*(?:${separator}\\d{3})+(?!\\d)${fraction}|\\d+${fraction}`, 'g');
+  return matchSpans(text, pattern).map(span => ({
+    ...span,
+    key: String(Number(span.text.split(decimal).map(part => part.replace(/\D/g, '')).join('.'))),
+  }));
+};
+
+/** Multiset difference of two token lists: `missing` are in the source only, `extra` in the target only. */
+const compareTokens = (source: Token[], target: Token[]) => {
+  const remaining = [...source];
+  const extra: Token[] = [];
+  target.forEach(token => {
+    const index = remaining.findIndex(candidate => candidate.key === token.key);
+    if (index === -1) extra.push(token);
+    else remaining.splice(index, 1);
+  });
+  return { missing: remaining, extra };
+};
+
+const tokenFindings = (checkId: QaCheckId, noun: string, source: Token[], target: Token[]): QaFinding[] => {
+  const { missing, extra } = compareTokens(source, target);
+  return [
+    ...missing.map(token => ({ checkId, severity: 'error' as const, message: `Missing ${noun} ${token.text}` })),
+    ...extra.map(({ key, ...span }) => ({ checkId, severity: 'error' as const, message: `Unexpected ${noun} ${span.text}`, targetSpan: span })),
+  ];
+};
+
+const endClass = (text: string) => {
+  const last = text.trimEnd().slice(-1);
+  return END_PUNCTUATION[last] || null;
+};
+
+export const normalizeSource = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const QA_CHECKS: QaCheck[] = [
+  {
+    id: 'numbers',
+    label: 'Numbers',
+    description: 'Numbers in the source must appear in the target.',
+    run: ({ sourceText, targetText }, { sourceNumbers, targetNumbers }) =>
+      tokenFindings('numbers', 'number', numberTokens(sourceText, sourceNumbers), numberTokens(targetText, targetNumbers)),
+  },
+  {
+    id: 'placeholders',
+    label: 'Placeholders',
+    description: 'Variables such as {0}, {name}, %s or %1$d must be kept exactly.',
+    run: ({ sourceText, targetText }) =>
+      tokenFindings('placeholders', 'placeholder', markupTokens(sourceText, 'placeholder'), markupTokens(targetText, 'placeholder')),
+  },
+  {
+    id: 'tags',
+    label: 'HTML / XML tags',
+    description: 'Inline tags must match between source and target.',
+    run: ({ sourceText, targetText }) =>
+      tokenFindings('tags', 'tag', markupTokens(sourceText, 'tag', normalizeTag), markupTokens(targetText, 'tag', normalizeTag)),
+  },
+  {
+    id: 'tagBalance',
+    label: 'Tag pairs',
+    description: 'Every opening tag in the target must be closed, in the right order.',
+    run: ({ targetText }) =>
+      unbalancedTags(parseMarkup(targetText).tokens).map(({ token, problem }) => ({
+        checkId: 'tagBalance',
+        severity: 'error',
+        message: problem,
+        targetSpan: { text: token.text, start: token.start, end: token.end },
+      })),
+  },
+  {
+    id: 'plurals',
+    label: 'ICU plurals',
+    description: "Plural messages must have a branch for each of the target language's plural forms.",
+    run: ({ targetText }, { targetLanguage }) => {
+      const categories = pluralCategoriesFor(targetLanguage);
+      return parseMarkup(targetText).choices
+        .filter(choice => choice.type === 'plural')
+        .flatMap(choice => {
+          const { missing, unused } = comparePluralBranches(choice, categories);
+          const findings: QaFinding[] = [];
+          if (missing.length > 0) {
+            findings.push({
+              checkId: 'plurals',
+              severity: 'error',
+              message: `Plural {${choice.argument}} is missing ${targetLanguage} form${missing.length === 1 ? '' : 's'} ${missing.join(', ')}`,
+              targetSpan: choice.span,
+            });
+          }
+          if (unused.length > 0) {
+            findings.push({
+              checkId: 'plurals',
+              severity: 'warning',
+              message: `Plural {${choice.argument}} has ${unused.join(', ')}, which ${targetLanguage} does not use`,
+              targetSpan: choice.span,
+            });
+          }
+          return findings;
+        });
+    },
+  },
+  {
+    id: 'endPunctuation',
+    label: 'End punctuation',
+    description: 'Target should end with the same kind of punctuation as the source.',
+    run: ({ sourceText, targetText }) => {
+      const source = endClass(sourceText);
+      const target = endClass(targetText);
+      if (source === target) return [];
+      const message = source
+        ? `Source ends with ${source}, target ${target ? `ends with ${target}` : 'has no end punctuation'}`
+        : `Target ends with ${target} but the source has no end punctuation`;
+      return [{ checkId: 'endPunctuation', severity: 'warning', message }];
+    },
+  },
+  {
+    id: 'doubleSpaces',
+    label: 'Double spaces',
+    description: 'Flags repeated spaces inside the target.',
+    run: ({ targetText }) =>
+      matchSpans(targetText.trim() ? targetText : '', / {2,}/g).map(span => ({
+        checkId: 'doubleSpaces',
+        severity: 'warning',
+        message: `Double space at position ${span.start + 1}`,
+        targetSpan: span,
+      })),
+  },
+  {
+    id: 'whitespace',
+    label: 'Leading / trailing spaces',
+    description: 'Leading and trailing whitespace must match the source.',
+    run: ({ sourceText, targetText }) => {
+      const findings: QaFinding[] = [];
+      const lead = (t: string) => t.length - t.trimStart().length;
+      const trail = (t: string) => t.length - t.trimEnd().length;
+      if (lead(sourceText) !== lead(targetText)) {
+        findings.push({ checkId: 'whitespace', severity: 'warning', message: 'Leading whitespace differs from the source' });
+      }
+      if (trail(sourceText) !== trail(targetText)) {
+        findings.push({ checkId: 'whitespace', severity: 'warning', message: 'Trailing whitespace differs from the source' });
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'untranslated',
+    label: 'Untranslated',
+    description: 'Target is identical to the source.',
+    run: ({ sourceText, targetText }) =>
+      /\p{L}/u.test(sourceText) && sourceText.trim() === targetText.trim()
+        ? [{ checkId: 'untranslated', severity: 'error', message: 'Target is identical to the source' }]
+        : [],
+  },
+  {
+    id: 'consistency',
+    label: 'Consistency',
+    description: 'Identical sources should have identical translations.',
+    run: ({ sourceText }, { targetsBySource }) => {
+      const targets = targetsBySource.get(normalizeSource(sourceText));
+      return targets && targets.size > 1
+        ? [{ checkId: 'consistency', severity: 'warning', message: `Same source is translated ${targets.size} different ways in this file` }]
+        : [];
+    },
+  },
+  {
+    id: 'terminology',
+    label: 'Glossary terms',
+    description: 'Approved glossary terms must be used; forbidden variants must not.',
+    run: ({ sourceText, targetText }, { glossary }) =>
+      checkTerminology(sourceText, targetText, glossary).map(violation => ({
+        checkId: 'terminology',
+        severity: 'error',
+        message: violation.kind === 'missing'
+          ? `"${violation.entry.source}" should be translated as ${violation.entry.approved.map(t => `"${t}"`).join(' or ')}`
+          : `"${violation.entry.source}" uses forbidden variant "${violation.targetSpan?.text}"`,
+        targetSpan: violation.targetSpan,
+      })),
+  },
+  {
+    id: 'readingSpeed',
+    label: 'Subtitle reading speed',
+    description: `Subtitle cues should need no more than ${SUBTITLE_LIMITS.maxCharsPerSecond} characters per second.`,
+    run: (segment) => {
+      const timing = subtitleTiming(segment);
+      if (!timing) return [];
+      const cps = charactersPerSecond(segment.targetText, timing);
+      return cps > SUBTITLE_LIMITS.maxCharsPerSecond
+        ? [{ checkId: 'readingSpeed', severity: 'warning', message: `Reading speed ${cps.toFixed(1)} characters/s is over ${SUBTITLE_LIMITS.maxCharsPerSecond}` }]
+        : [];
+    },
+  },
+  {
+    id: 'lineLength',
+    label: 'Subtitle line length',
+    description: `Subtitle lines should be at most ${SUBTITLE_LIMITS.maxLineLength} characters.`,
+    run: (segment) => {
+      if (!subtitleTiming(segment)) return [];
+      let offset = 0;
+      return segment.targetText.split('\n').flatMap((line, index) => {
+        const start = offset;
+        offset += line.length + 1;
+        const length = visibleLines(line)[0].length;
+        return length > SUBTITLE_LIMITS.maxLineLength
+          ? [{
+              checkId: 'lineLength' as const,
+              severity: 'warning' as const,
+              message: `Line ${index + 1} has ${length} characters, over ${SUBTITLE_LIMITS.maxLineLength}`,
+              targetSpan: { text: line, start, end: start + line.length },
+            }]
+          : [];
+      });
+    },
+  },
+  {
+    id: 'lineCount',
+    label: 'Subtitle line count',
+    description: `Subtitle cues should have at most ${SUBTITLE_LIMITS.maxLines} lines.`,
+    run: (segment) => {
+      if (!subtitleTiming(segment)) return [];
+      const lines = segment.targetText.trim().split('\n').length;
+      return lines > SUBTITLE_LIMITS.maxLines
+        ? [{ checkId: 'lineCount', severity: 'error', message: `Cue has ${lines} lines, over ${SUBTITLE_LIMITS.maxLines}` }]
+        : [];
+    },
+  },
+];
+
+export const DEFAULT_QA_SETTINGS: QaSettings = QA_CHECKS.reduce(
+  (settings, check) => ({ ...settings, [check.id]: true }),
+  {} as QaSettings
+);
+
+export const buildQaContext = (segments: Segment[], glossary: GlossaryEntry[], sourceLanguage: string, targetLanguage: string): QaContext => {
+  const targetsBySource = new Map<string, Set<string>>();
+  segments.forEach(segment => {
+    if (!segment.sourceText.trim() || !segment.targetText.trim()) return;
+    const key = normalizeSource(segment.sourceText);
+    if (!targetsBySource.has(key)) targetsBySource.set(key, new Set());
+    targetsBySource.get(key)!.add(segment.targetText.trim());
+  });
+  return {
+    glossary,
+    targetsBySource,
+    targetLanguage,
+    sourceNumbers: numberSeparatorsFor(sourceLanguage),
+    targetNumbers: numberSeparatorsFor(targetLanguage),
+  };
+};
+
+/** Runs every enabled check on a segment. Segments without both texts are not checked. */
+export const runQaChecks = (segment: Segment, settings: QaSettings, context: QaContext): QaFinding[] => {
+  if (!segment.sourceText.trim() || !segment.targetText.trim()) return [];
+  return QA_CHECKS
+    .filter(check => settings[check.id] !== false)
+    .flatMap(check => check.run(segment, context));
+};
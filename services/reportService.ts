@@ -0,0 +1,145 @@
+import { Segment, SegmentStatus, SegmentCategory, IssueSeverity, QualityReport, SegmentScore } from '../types';
+import { escapeXml } from './xmlUtils';
+import { csvCell } from './glossaryService';
+import { textDirection, codeForLanguage } from './languageService';
+import { WORD_PATTERN } from './textUtils';
+
+export const SEVERITY_WEIGHTS: Record<IssueSeverity, number> = {
+  [IssueSeverity.Minor]: 1,
+  [IssueSeverity.Major]: 5,
+  [IssueSeverity.Critical]: 10,
+};
+
+const WORST_SEGMENT_LIMIT = 10;
+
+export const countWords = (text: string) => (text.match(WORD_PATTERN) || []).length;
+
+const zeroCounts = <K extends string>(keys: K[]) =>
+  keys.reduce((counts, key) => ({ ...counts, [key]: 0 }), {} as Record<K, number>);
+
+/** Resolved issues are treated as fixed and carry no penalty. */
+export const scoreSegment = (segment: Segment): SegmentScore => {
+  const open = (segment.issues || []).filter(issue => !issue.resolved);
+  return {
+    segment,
+    penalty: open.reduce((sum, issue) => sum + (SEVERITY_WEIGHTS[issue.severity] || 0), 0),
+    openIssues: open.length,
+  };
+};
+
+export const buildQualityReport = (
+  segments: Segment[],
+  sourceLanguage: string,
+  targetLanguage: string
+): QualityReport => {
+  const statusCounts = zeroCounts(Object.values(SegmentStatus));
+  const categoryCounts = zeroCounts(Object.values(SegmentCategory));
+  const severityCounts = zeroCounts(Object.values(IssueSeverity));
+  let sourceWords = 0;
+
+  const scores = segments.map(segment => {
+    statusCounts[segment.status]++;
+    categoryCounts[segment.category]++;
+    sourceWords += countWords(segment.sourceText);
+    (segment.issues || []).filter(issue => !issue.resolved).forEach(issue => severityCounts[issue.severity]++);
+    return scoreSegment(segment);
+  });
+
+  const penaltyPoints = scores.reduce((sum, score) => sum + score.penalty, 0);
+  const errorDensity = sourceWords > 0 ? (penaltyPoints * 1000) / sourceWords : 0;
+
+  return {
+    generatedAt: Date.now(),
+    sourceLanguage,
+    targetLanguage,
+    totalSegments: segments.length,
+    sourceWords,
+    statusCounts,
+    categoryCounts,
+    severityCounts,
+    penaltyPoints,
+    errorDensity,
+    qualityScore: sourceWords > 0 ? Math.max(0, 100 - (penaltyPoints * 100) / sourceWords) : 100,
+    worstSegments: scores
+      .filter(score => score.penalty > 0)
+      .sort((a, b) => b.penalty - a.penalty || b.openIssues - a.openIssues)
+      .slice(0, WORST_SEGMENT_LIMIT),
+  };
+};
+
+export const exportReportCsv = (segments: Segment[]): string => [
+  'id,source,target,status,category,open_issues,penalty,ai_feedback',
+  ...segments.map(segment => {
+    const { penalty, openIssues } = scoreSegment(segment);
+    return [
+      csvCell(segment.id),
+      csvCell(segment.sourceText),
+      csvCell(segment.targetText),
+      csvCell(segment.status),
+      csvCell(segment.category),
+      String(openIssues),
+      String(penalty),
+      csvCell(segment.aiFeedback || ''),
+    ].join(',');
+  }),
+].join('\n') + '\n';
+
+const countTable = (title: string, counts: Record<string, number>) => `
+  <h2>${escapeXml(title)}</h2>
+  <table class="counts">
+    ${Object.entries(counts).map(([label, count]) => `<tr><th>${escapeXml(label)}</th><td>${count}</td></tr>`).join('\n    ')}
+  </table>`;
+
+const multiline = (text: string) => escapeXml(text).replace(/\n/g, '<br>');
+
+/** A self-contained HTML page (inline styles, no scripts) that can be mailed or printed as is. */
+export const exportReportHtml = (report: QualityReport, segments: Segment[]): string => {
+  const title = `Review report · ${report.sourceLanguage} → ${report.targetLanguage}`;
+  const worstIds = new Set(report.worstSegments.map(score => score.segment.id));
+  const textCell = (text: string, language: string) =>
+    `<td dir="${textDirection(language)}" lang="${escapeXml(codeForLanguage(language))}">${multiline(text)}</td>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeXml(title)}</title>
+<style>
+  body { font-family: system-ui, -apple-system, sans-serif; color: #0f172a; margin: 2rem auto; max-width: 1100px; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.15em; color: #64748b; margin-top: 2rem; }
+  .meta { color: #64748b; font-size: 0.875rem; }
+  .cards { display: flex; gap: 1rem; flex-wrap: wrap; margin-top: 1.5rem; }
+  .card { border: 1px solid #e2e8f0; border-radius: 0.75rem; padding: 1rem 1.25rem; min-width: 150px; }
+  .card b { display: block; font-size: 1.5rem; }
+  .card span { font-size: 0.75rem; color: #64748b; text-transform: uppercase; letter-spacing: 0.1em; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.875rem; }
+  th, td { text-align: left; vertical-align: top; padding: 0.5rem; border-bottom: 1px solid #f1f5f9; }
+  table.counts { width: auto; min-width: 260px; }
+  .worst { background: #fff1f2; }
+</style>
+</head>
+<body>
+  <h1>${escapeXml(title)}</h1>
+  <p class="meta">Generated ${escapeXml(new Date(report.generatedAt).toLocaleString())}</p>
+  <div class="cards">
+    <div class="card"><b>${report.totalSegments}</b><span>Segments</span></div>
+    <div class="card"><b>${report.sourceWords}</b><span>Source words</span></div>
+    <div class="card"><b>${report.penaltyPoints}</b><span>Penalty points</span></div>
+    <div class="card"><b>${report.errorDensity.toFixed(1)}</b><span>Points / 1,000 words</span></div>
+    <div class="card"><b>${report.qualityScore.toFixed(1)}</b><span>Quality score</span></div>
+  </div>
+  ${countTable('Status', report.statusCounts)}
+  ${countTable('Category', report.categoryCounts)}
+  ${countTable('Open issues by severity', report.severityCounts)}
+  <h2>Segments</h2>
+  <table>
+    <thead><tr><th>ID</th><th>Source</th><th>Target</th><th>Status</th><th>Category</th><th>Penalty</th><th>AI feedback</th></tr></thead>
+    <tbody>
+${segments.map(segment => `      <tr${worstIds.has(segment.id) ? ' class="worst"' : ''}><td>${escapeXml(segment.id)}</td>${textCell(segment.sourceText, report.sourceLanguage)}${textCell(segment.targetText, report.targetLanguage)}<td>${escapeXml(segment.status)}</td><td>${escapeXml(segment.category)}</td><td>${scoreSegment(segment).penalty}</td><td>${multiline(segment.aiFeedback || '')}</td></tr>`).join('\n')}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { Segment, SegmentStatus, SegmentCategory, ReplaceOptions } from '../types';
+import { previewReplacements } from './searchService';
+
+const segment = (targetText: string): Segment => ({
+  id: '1',
+  sourceText: 'source',
+  targetText,
+  status: SegmentStatus.Pending,
+  category: SegmentCategory.None,
+  aiFeedback: null,
+  wordBreakdown: [],
+  isAnalyzing: false,
+});
+
+const preview = (targetText: string, options: Partial<ReplaceOptions>) =>
+  previewReplacements([segment(targetText)], { find: '', replace: '', caseSensitive: false, wholeWord: false, regex: true, ...options })[0];
+
+describe('previewReplacements', () => {
+  it('replaces only the matches it counts when the pattern can match empty text', () => {
+    expect(preview('baaad', { find: 'a*', replace: 'x' })).toMatchObject({ after: 'bxd', count: 1 });
+    expect(preview('some text', { find: '^', replace: '> ' })).toBeUndefined();
+  });
+
+  it('expands groups and keeps lookarounds working', () => {
+    expect(preview('2024-05-01', { find: '(\\d+)-(\\d+)', replace: '$2/$1' })).toMatchObject({ after: '05/2024-01', count: 1 });
+    expect(preview('ab cb', { find: '(?<=c)b', replace: '[$&]' })).toMatchObject({ after: 'ab c[b]', count: 1 });
+  });
+
+  it('inserts the replacement literally without regex', () => {
+    expect(preview('a.b', { find: '.', replace: '$1', regex: false })).toMatchObject({ after: 'a$1b', count: 1 });
+  });
+});
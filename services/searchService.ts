@@ -0,0 +1,88 @@
+import { Segment, SegmentStatus, SegmentFilter, SegmentSort, ReplaceOptions, ReplacementPreview } from '../types';
+import { escapeRegExp, wholeWord } from './textUtils';
+
+export const EMPTY_FILTER: SegmentFilter = {
+  query: '',
+  status: 'all',
+  category: 'all',
+  hasFeedback: false,
+  failed: false,
+};
+
+// Work still to do sorts first.
+const STATUS_ORDER: Record<SegmentStatus, number> = {
+  [SegmentStatus.NeedsWork]: 0,
+  [SegmentStatus.Pending]: 1,
+  [SegmentStatus.Reviewed]: 2,
+  [SegmentStatus.Approved]: 3,
+};
+
+export const isFilterActive = (filter: SegmentFilter) =>
+  !!filter.query.trim() || filter.status !== 'all' || filter.category !== 'all' || filter.hasFeedback || filter.failed;
+
+export const filterSegments = (segments: Segment[], filter: SegmentFilter): Segment[] => {
+  const needle = filter.query.trim().toLowerCase();
+  return segments.filter(segment =>
+    (filter.status === 'all' || segment.status === filter.status) &&
+    (filter.category === 'all' || segment.category === filter.category) &&
+    (!filter.hasFeedback || !!segment.aiFeedback) &&
+    (!filter.failed || !!segment.analysisError) &&
+    (!needle || [segment.sourceText, segment.targetText, segment.aiFeedback || '']
+      .some(text => text.toLowerCase().includes(needle)))
+  );
+};
+
+export const sortSegments = (segments: Segment[], sort: SegmentSort): Segment[] => {
+  if (sort === 'original') return segments;
+  const sorted = [...segments];
+  if (sort === 'status') sorted.sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]);
+  if (sort === 'sourceLength') sorted.sort((a, b) => b.sourceText.length - a.sourceText.length);
+  if (sort === 'targetLength') sorted.sort((a, b) => b.targetText.length - a.targetText.length);
+  return sorted;
+};
+
+/** Builds the search expression; throws a SyntaxError for an invalid regular expression. */
+export const buildSearchPattern = ({ find, caseSensitive, wholeWord: isWholeWord, regex }: ReplaceOptions): RegExp => {
+  const source = regex ? find : escapeRegExp(find);
+  return new RegExp(isWholeWord ? wholeWord(source) : source, `g${caseSensitive ? '' : 'i'}u`);
+};
+
+/**
+ * Replaces the non-empty matches in `text`. Empty matches (from `^`, `\b` or `a*`) are skipped, so
+ * what is replaced is exactly what is counted.
+ */
+const replaceMatches = (text: string, pattern: RegExp, { replace, regex }: ReplaceOptions) => {
+  // A sticky copy run at a match's own position expands $1, $& and lookarounds exactly as replace() would.
+  const at = new RegExp(pattern.source, `${pattern.flags.replace('g', '')}y`);
+  let after = '';
+  let last = 0;
+  let count = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (!match[0]) continue;
+    const start = match.index!;
+    const end = start + match[0].length;
+    let replacement = replace;
+    if (regex) {
+      at.lastIndex = start;
+      const expanded = text.replace(at, replace);
+      replacement = expanded.slice(start, expanded.length - (text.length - end));
+    }
+    after += text.slice(last, start) + replacement;
+    last = end;
+    count++;
+  }
+  return { after: after + text.slice(last), count };
+};
+
+/**
+ * Computes the new target of every segment the replacement would change. With `regex` on,
+ * the replacement may reference groups as $1, $2…; otherwise it is inserted literally.
+ */
+export const previewReplacements = (segments: Segment[], options: ReplaceOptions): ReplacementPreview[] => {
+  if (!options.find) return [];
+  const pattern = buildSearchPattern(options);
+  return segments.flatMap(segment => {
+    const { after, count } = replaceMatches(segment.targetText, pattern, options);
+    return count === 0 || after === segment.targetText ? [] : [{ segment, after, count }];
+  });
+};
@@ -0,0 +1,247 @@
+import { Segment, SegmentStatus, SegmentCategory, SubtitleFormat, SubtitleOrigin, SubtitleDocument, SkippedItem, ImportSummary } from '../types';
+
+/** Common broadcast and streaming limits; cues over them are flagged by QA, never changed. */
+export const SUBTITLE_LIMITS = {
+  maxCharsPerSecond: 17,
+  maxLineLength: 42,
+  maxLines: 2,
+};
+
+/** How cues of a translation file are paired with the source cues. */
+export type CueAlignment = 'timing' | 'index';
+
+export interface SubtitleCue {
+  id?: string;
+  start: number;
+  end: number;
+  settings?: string;
+  text: string;
+}
+
+export interface ParsedSubtitles {
+  format: SubtitleFormat;
+  /** WebVTT header plus any STYLE and REGION blocks before the first cue; empty for SRT. */
+  header: string;
+  cues: SubtitleCue[];
+  skipped: SkippedItem[];
+}
+
+export interface SubtitleFile {
+  name: string;
+  content: string;
+}
+
+export interface SubtitleImportResult {
+  format: SubtitleFormat;
+  segments: Segment[];
+  summary: ImportSummary;
+}
+
+export const SUBTITLE_FILE_PATTERN = /\.(srt|vtt)$/i;
+
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})$/;
+const TIMING_LINE = /^(\S+)[ \t]+-->[ \t]+(\S+)(.*)$/;
+// Index-aligned cues whose start times differ by more than this are probably paired wrongly.
+const DRIFT_WARNING_MS = 1000;
+
+const parseTimestamp = (value: string): number | null => {
+  const match = value.match(TIMESTAMP);
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, fraction] = match;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(fraction.padEnd(3, '0'));
+};
+
+/** 3723004 -> "01:02:03,004" for SRT, "01:02:03.004" for WebVTT. */
+export const formatTimestamp = (ms: number, format: SubtitleFormat) => {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor(ms / 60000) % 60;
+  const seconds = Math.floor(ms / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${format === 'srt' ? ',' : '.'}${pad(ms % 1000, 3)}`;
+};
+
+/** Reads an SRT or WebVTT file; the format is told by the WEBVTT signature, not the file name. */
+export const parseSubtitles = (content: string): ParsedSubtitles => {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n(?:[ \t]*\n)+/)
+    .map(block => block.replace(/^\n+|\s+$/g, ''))
+    .filter(Boolean);
+  const format: SubtitleFormat = /^WEBVTT(?:[ \t]|$)/.test(blocks[0] || '') ? 'vtt' : 'srt';
+  const headerBlocks: string[] = format === 'vtt' ? [blocks.shift()!] : [];
+  const cues: SubtitleCue[] = [];
+  const skipped: SkippedItem[] = [];
+
+  blocks.forEach((block, index) => {
+    if (format === 'vtt' && /^(?:NOTE|STYLE|REGION)(?:\s|$)/.test(block)) {
+      // Style and region definitions are only valid before the first cue; comments are dropped.
+      if (!block.startsWith('NOTE') && cues.length === 0) headerBlocks.push(block);
+      return;
+    }
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    const label = `Block ${index + 1}`;
+    if (timingIndex === -1 || timingIndex > 1) {
+      skipped.push({ id: label, reason: 'No timing line' });
+      return;
+    }
+    const timing = lines[timingIndex].trim().match(TIMING_LINE);
+    const start = timing && parseTimestamp(timing[1]);
+    const end = timing && parseTimestamp(timing[2]);
+    const id = timingIndex === 1 ? lines[0].trim() : undefined;
+    if (start === null || end === null || !timing) {
+      skipped.push({ id: id || label, reason: `Unreadable timing "${lines[timingIndex].trim()}"` });
+      return;
+    }
+    if (end <= start) {
+      skipped.push({ id: id || label, reason: 'Cue ends before it starts' });
+      return;
+    }
+    const text = lines.slice(timingIndex + 1).join('\n');
+    if (!text.trim()) {
+      skipped.push({ id: id || label, reason: 'Empty cue' });
+      return;
+    }
+    const settings = timing[3].trim();
+    cues.push({ id, start, end, text, ...(format === 'vtt' && settings ? { settings } : {}) });
+  });
+
+  if (cues.length === 0) {
+    throw new Error('No subtitle cues found. Expected an SRT or WebVTT file.');
+  }
+  return { format, header: headerBlocks.join('\n\n'), cues, skipped };
+};
+
+const overlap = (a: SubtitleCue, b: SubtitleCue) => Math.min(a.end, b.end) - Math.max(a.start, b.start);
+
+/**
+ * Pairs each translation cue with source cues. By timing, a translation cue goes to the source cue it
+ * overlaps most, so cues split or merged in translation still land together; by index, cue n goes to cue n.
+ * Returns the translation text per source cue and the translation cues that found no partner.
+ */
+const alignCues = (source: SubtitleCue[], translation: SubtitleCue[], alignment: CueAlignment) => {
+  const texts: string[][] = source.map(() => []);
+  const unmatched: SubtitleCue[] = [];
+  translation.forEach((cue, index) => {
+    let match = -1;
+    if (alignment === 'index') {
+      match = index < source.length ? index : -1;
+    } else {
+      let best = 0;
+      source.forEach((candidate, candidateIndex) => {
+        const shared = overlap(candidate, cue);
+        if (shared > best) {
+          best = shared;
+          match = candidateIndex;
+        }
+      });
+    }
+    if (match === -1) unmatched.push(cue);
+    else texts[match].push(cue.text);
+  });
+  return { texts: texts.map(parts => parts.join('\n')), unmatched };
+};
+
+const formatLabel = (format: SubtitleFormat) => format === 'srt' ? 'SRT' : 'WebVTT';
+
+/** Builds segments from a subtitle file and, optionally, its translation. Each source cue becomes one segment. */
+export const importSubtitles = (
+  sourceFile: SubtitleFile,
+  translationFile: SubtitleFile | null,
+  alignment: CueAlignment
+): SubtitleImportResult => {
+  const source = parseSubtitles(sourceFile.content);
+  const translation = translationFile ? parseSubtitles(translationFile.content) : null;
+  const skipped = [...source.skipped];
+  const details = [`${formatLabel(source.format)}, ${source.cues.length} cue${source.cues.length === 1 ? '' : 's'}`];
+  let targets = source.cues.map(() => '');
+
+  if (translation && translationFile) {
+    const { texts, unmatched } = alignCues(source.cues, translation.cues, alignment);
+    targets = texts;
+    skipped.push(...translation.skipped.map(item => ({ ...item, id: `Translation ${item.id}` })));
+    skipped.push(...unmatched.map(cue => ({
+      id: `Translation cue ${cue.id || formatTimestamp(cue.start, translation.format)}`,
+      reason: alignment === 'index' ? 'No source cue at this position' : 'Overlaps no source cue',
+    })));
+    details.push(`Translation from ${translationFile.name}: ${translation.cues.length} cues, aligned by ${alignment === 'index' ? 'cue index' : 'timecode'}`);
+    const untranslated = targets.filter(text => !text).length;
+    if (untranslated > 0) details.push(`${untranslated} source cue${untranslated === 1 ? ' has' : 's have'} no translation`);
+    if (alignment === 'index') {
+      const drifted = source.cues.filter((cue, index) =>
+        translation.cues[index] && Math.abs(translation.cues[index].start - cue.start) > DRIFT_WARNING_MS).length;
+      if (drifted > 0) {
+        details.push(`${drifted} paired cue${drifted === 1 ? ' starts' : 's start'} more than ${DRIFT_WARNING_MS / 1000} s apart; check the pairing`);
+      }
+    }
+  }
+
+  const segments: Segment[] = source.cues.map((cue, index) => ({
+    id: `cue-${index + 1}`,
+    sourceText: cue.text,
+    targetText: targets[index],
+    status: SegmentStatus.Pending,
+    category: SegmentCategory.None,
+    aiFeedback: null,
+    wordBreakdown: [],
+    isAnalyzing: false,
+    origin: {
+      format: source.format,
+      start: cue.start,
+      end: cue.end,
+      ...(cue.id ? { cueId: cue.id } : {}),
+      ...(cue.settings ? { settings: cue.settings } : {}),
+    },
+  }));
+
+  return {
+    format: source.format,
+    segments,
+    summary: {
+      format: formatLabel(source.format),
+      fileName: translationFile ? `${sourceFile.name} + ${translationFile.name}` : sourceFile.name,
+      imported: segments.length,
+      skipped,
+      details,
+    },
+  };
+};
+
+export const subtitleTiming = (segment: Segment): SubtitleOrigin | null =>
+  segment.origin && segment.origin.format !== 'xliff' ? segment.origin : null;
+
+/** Lines as the viewer reads them: SRT/WebVTT tags, WebVTT timestamps and {\an8}-style overrides removed. */
+export const visibleLines = (text: string) =>
+  text.split('\n').map(line => line.replace(/<[^>]*>|\{\\[^}]*\}/g, ''));
+
+/** Reading speed in characters per second, counting spaces but not line breaks. */
+export const charactersPerSecond = (text: string, timing: SubtitleOrigin) => {
+  const characters = visibleLines(text.trim()).join('').length;
+  return characters / Math.max((timing.end - timing.start) / 1000, 0.001);
+};
+
+/**
+ * Writes the reviewed cues with their original timings, in time order. Segments that did not come
+ * from a subtitle file are left out, and cues without a translation keep the source text so no
+ * cue goes missing. A WebVTT source keeps its header and style blocks.
+ */
+export const exportSubtitles = (segments: Segment[], format: SubtitleFormat, document: SubtitleDocument | null): string => {
+  const cues = segments
+    .map(segment => ({ segment, timing: subtitleTiming(segment) }))
+    .filter((cue): cue is { segment: Segment; timing: SubtitleOrigin } => cue.timing !== null)
+    .sort((a, b) => a.timing.start - b.timing.start);
+
+  const blocks = cues.map(({ segment, timing }, index) => {
+    // A blank line would end the cue early.
+    const text = (segment.targetText.trim() || segment.sourceText.trim()).replace(/\n\s*\n/g, '\n');
+    const times = `${formatTimestamp(timing.start, format)} --> ${formatTimestamp(timing.end, format)}`;
+    if (format === 'srt') return `${index + 1}\n${times}\n${text}`;
+    const settings = timing.format === 'vtt' && timing.settings ? ` ${timing.settings}` : '';
+    return `${timing.cueId ? `${timing.cueId}\n` : ''}${times}${settings}\n${text}`;
+  });
+
+  if (format === 'srt') return `${blocks.join('\n\n')}\n`;
+  const header = document?.format === 'vtt' ? parseSubtitles(document.content).header : 'WEBVTT';
+  return `${[header, ...blocks].join('\n\n')}\n`;
+};
@@ -0,0 +1,12 @@
+import { TextSpan } from '../types';
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Wraps a pattern so it only matches whole words; letters and digits of any script count as word characters. Needs the `u` flag. */
+export const wholeWord = (pattern: string) => `(?<![\\p{L}\\p{N}])(?:${pattern})(?![\\p{L}\\p{N}])`;
+
+// Han and kana characters count as one word each, as CAT tools do for unspaced scripts.
+export const WORD_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/gu;
+
+export const wordSpans = (text: string): TextSpan[] =>
+  [...text.matchAll(WORD_PATTERN)].map(match => ({ text: match[0], start: match.index!, end: match.index! + match[0].length }));
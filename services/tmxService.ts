@@ -0,0 +1,74 @@
+import { Segment, SegmentStatus, SegmentCategory } from '../types';
+import { escapeXml, parseXmlDocument, byLocalName, firstChild } from './xmlUtils';
+import { codeForLanguage, languageFromCode } from './languageService';
+
+export interface TmxExportOptions {
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+/**
+ * Builds a TMX 1.4 memory from approved segments only, ready to be loaded into a CAT tool's TM.
+ * Review metadata travels as `<prop>`/`<note>` on each translation unit.
+ */
+export const exportTmx = (segments: Segment[], options: TmxExportOptions): string => {
+  const srcLang = codeForLanguage(options.sourceLanguage);
+  const trgLang = codeForLanguage(options.targetLanguage);
+  const created = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+  const units = segments
+    .filter(s => s.status === SegmentStatus.Approved && s.sourceText.trim() && s.targetText.trim())
+    .map(s => {
+      const meta = [
+        s.category !== SegmentCategory.None ? `      <prop type="x-category">${escapeXml(s.category)}</prop>` : null,
+        s.backTranslation ? `      <prop type="x-back-translation">${escapeXml(s.backTranslation.text)}</prop>` : null,
+        s.aiFeedback ? `      <note>${escapeXml(s.aiFeedback)}</note>` : null,
+      ].filter(Boolean);
+      return [
+        `    <tu tuid="${escapeXml(s.id)}">`,
+        ...meta,
+        `      <tuv xml:lang="${srcLang}"><seg>${escapeXml(s.sourceText)}</seg></tuv>`,
+        `      <tuv xml:lang="${trgLang}"><seg>${escapeXml(s.targetText)}</seg></tuv>`,
+        `    </tu>`,
+      ].join('\n');
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="Bilingual Proofreader" creationtoolversion="1.0.0" datatype="plaintext" segtype="sentence" adminlang="en" srclang="${srcLang}" o-tmf="none" creationdate="${created}"/>`,
+    '  <body>',
+    ...units,
+    '  </body>',
+    '</tmx>',
+    '',
+  ].join('\n');
+};
+
+export interface TmxImportResult {
+  pairs: { sourceText: string; targetText: string }[];
+  skipped: number;
+}
+
+/**
+ * Reads translation units from a TMX file for one language pair. Languages are compared by
+ * display name so "es-ES" in the file matches our "Spanish".
+ */
+export const parseTmx = (content: string, sourceLanguage: string, targetLanguage: string): TmxImportResult => {
+  const doc = parseXmlDocument(content, 'tmx');
+  const languageOf = (tuv: Element) => languageFromCode(tuv.getAttribute('xml:lang') || tuv.getAttribute('lang'));
+
+  const result: TmxImportResult = { pairs: [], skipped: 0 };
+  byLocalName(doc, 'tu').forEach(tu => {
+    const variants = Array.from(tu.children).filter(child => child.localName === 'tuv');
+    const textFor = (language: string) => {
+      const tuv = variants.find(v => languageOf(v) === language);
+      return tuv ? (firstChild(tuv, 'seg')?.textContent || '').trim() : '';
+    };
+    const sourceText = textFor(sourceLanguage);
+    const targetText = textFor(targetLanguage);
+    if (sourceText && targetText) result.pairs.push({ sourceText, targetText });
+    else result.skipped++;
+  });
+  return result;
+};
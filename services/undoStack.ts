@@ -0,0 +1,59 @@
+export interface UndoStack<T> {
+  /** Saves the state from before a change. Changes sharing `coalesceKey` in quick succession form one step. */
+  record: (previous: T, coalesceKey?: string) => void;
+  undo: (current: T) => T | null;
+  redo: (current: T) => T | null;
+  clear: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+}
+
+export const createUndoStack = <T>(limit = 100, coalesceMs = 1000): UndoStack<T> => {
+  let past: T[] = [];
+  let future: T[] = [];
+  let lastKey: string | undefined;
+  let lastTime = 0;
+
+  const record = (previous: T, coalesceKey?: string) => {
+    const now = Date.now();
+    const isSameStep = !!coalesceKey && coalesceKey === lastKey && now - lastTime < coalesceMs;
+    lastKey = coalesceKey;
+    lastTime = now;
+    if (isSameStep) return;
+    past = [...past, previous].slice(-limit);
+    future = [];
+  };
+
+  const undo = (current: T) => {
+    const previous = past[past.length - 1];
+    if (previous === undefined) return null;
+    past = past.slice(0, -1);
+    future = [...future, current];
+    lastKey = undefined;
+    return previous;
+  };
+
+  const redo = (current: T) => {
+    const next = future[future.length - 1];
+    if (next === undefined) return null;
+    future = future.slice(0, -1);
+    past = [...past, current];
+    lastKey = undefined;
+    return next;
+  };
+
+  const clear = () => {
+    past = [];
+    future = [];
+    lastKey = undefined;
+  };
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: () => past.length > 0,
+    canRedo: () => future.length > 0,
+  };
+};
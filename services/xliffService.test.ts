@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { SegmentStatus, XliffDocument } from '../types';
+import { parseXliff, exportXliff } from './xliffService';
+
+const XLIFF_12 = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file original="app" source-language="en" target-language="de" datatype="plaintext">
+    <body>
+      <trans-unit id="1" approved="yes">
+        <source>Save</source>
+        <target state="final">Speichern</target>
+      </trans-unit>
+      <trans-unit id="2">
+        <source>Cancel</source>
+        <target state="translated">Abbrechen</target>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>`;
+
+const document12: XliffDocument = { format: 'xliff', version: '1.2', fileName: 'app.xlf', content: XLIFF_12 };
+
+const exportWith = (status: (id: string) => SegmentStatus | undefined) => {
+  const { segments } = parseXliff(XLIFF_12, 'app.xlf');
+  const edited = segments.map(segment => ({ ...segment, status: status(segment.id) ?? segment.status }));
+  return exportXliff(edited, { sourceLanguage: 'English', targetLanguage: 'German', document: document12 });
+};
+
+const statusOf = (content: string, id: string) =>
+  parseXliff(content, 'app.xlf').segments.find(segment => segment.id === id)?.status;
+
+describe('XLIFF 1.2 approved attribute', () => {
+  it('re-imports a downgraded approved unit with its new status', () => {
+    const exported = exportWith(id => (id === '1' ? SegmentStatus.NeedsWork : undefined));
+    expect(exported).not.toMatch(/approved=/);
+    expect(statusOf(exported, '1')).toBe(SegmentStatus.NeedsWork);
+  });
+
+  it('writes approved="yes" for units approved in the app', () => {
+    const exported = exportWith(id => (id === '2' ? SegmentStatus.Approved : undefined));
+    expect(exported).toMatch(/<trans-unit id="2" approved="yes">/);
+    expect(statusOf(exported, '2')).toBe(SegmentStatus.Approved);
+  });
+});
+
+describe('XLIFF export of edited working sets', () => {
+  it('drops units whose segment was deleted and keeps units the import skipped', () => {
+    const content = XLIFF_12.replace('<trans-unit id="2">', '<trans-unit id="3" translate="no"><source>Logo</source></trans-unit>\n      <trans-unit id="2">');
+    const { segments } = parseXliff(content, 'app.xlf');
+    const exported = exportXliff(segments.filter(segment => segment.id !== '2'), {
+      sourceLanguage: 'English', targetLanguage: 'German', document: { ...document12, content },
+    });
+    expect(exported).toContain('id="1"');
+    expect(exported).toContain('id="3"');
+    expect(exported).not.toContain('id="2"');
+  });
+
+  it('keeps inline elements when a target is edited', () => {
+    const content = XLIFF_12.replace('<target state="translated">Abbrechen</target>',
+      '<target state="translated">Klicken Sie <g id="1">hier</g><x id="2"/> jetzt</target>');
+    const { segments } = parseXliff(content, 'app.xlf');
+    const edited = segments.map(segment =>
+      segment.id === '2' ? { ...segment, targetText: 'Tippen Sie hier sofort' } : segment);
+    const exported = exportXliff(edited, { sourceLanguage: 'English', targetLanguage: 'German', document: { ...document12, content } });
+    expect(exported).toContain('Tippen Sie <g id="1">hier</g><x id="2"/> sofort</target>');
+    expect(parseXliff(exported, 'app.xlf').segments.find(segment => segment.id === '2')?.targetText).toBe('Tippen Sie hier sofort');
+  });
+});
+
+describe('XLIFF 1.2 states', () => {
+  it('imports signed-off units as approved', () => {
+    expect(statusOf(XLIFF_12.replace('state="translated"', 'state="signed-off"'), '2')).toBe(SegmentStatus.Approved);
+  });
+
+  it('round-trips reviewed segments', () => {
+    expect(statusOf(exportWith(id => (id === '2' ? SegmentStatus.Reviewed : undefined)), '2')).toBe(SegmentStatus.Reviewed);
+  });
+});
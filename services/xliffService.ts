@@ -0,0 +1,529 @@
+import { Segment, BackTranslation, SegmentStatus, SegmentCategory, XliffOrigin, SkippedItem, ImportSummary, XliffVersion, XliffDocument } from '../types';
+import { byLocalName, firstChild, parseXmlDocument, serializeXml } from './xmlUtils';
+import { codeForLanguage } from './languageService';
+import { revisionParts } from './diffService';
+
+export interface XliffImportResult {
+  version: XliffVersion;
+  sourceLanguage: string | null;
+  targetLanguage: string | null;
+  segments: Segment[];
+  summary: ImportSummary;
+}
+
+// Written as the note author (1.2) or note category (2.0) so re-exports replace our own notes only.
+const NOTE_AUTHOR = 'bilingual-proofreader';
+const NEEDS_WORK_SUBSTATE = 'proofreader:needs-work';
+// XLIFF 1.2 has no standard "reviewed" state below signed-off, which tools treat as approved; custom values take an x- prefix.
+const REVIEWED_STATE_12 = 'x-proofreader-reviewed';
+
+/**
+ * Maps XLIFF 1.2 `state` values and XLIFF 2.0 segment states onto our review statuses.
+ * Anything we do not recognise is treated as not yet reviewed.
+ */
+export const xliffStateToStatus = (
+  state: string | null | undefined,
+  version: XliffVersion,
+  subState?: string | null
+): SegmentStatus => {
+  if (!state) return SegmentStatus.Pending;
+  const value = state.trim().toLowerCase();
+
+  if (version === '2.0') {
+    if (subState === NEEDS_WORK_SUBSTATE) return SegmentStatus.NeedsWork;
+    switch (value) {
+      case 'final': return SegmentStatus.Approved;
+      case 'reviewed': return SegmentStatus.Reviewed;
+      default: return SegmentStatus.Pending;
+    }
+  }
+
+  if (value === 'final' || value === 'signed-off') return SegmentStatus.Approved;
+  if (value === REVIEWED_STATE_12) return SegmentStatus.Reviewed;
+  if (value.startsWith('needs-')) return SegmentStatus.NeedsWork;
+  return SegmentStatus.Pending;
+};
+
+/**
+ * Inverse of `xliffStateToStatus`. Pending segments keep their original state when it still
+ * means "not reviewed", so an untouched unit round-trips unchanged.
+ */
+export const statusToXliffState = (
+  segment: Segment,
+  version: XliffVersion
+): { state: string; subState?: string } => {
+  const original = segment.origin?.format === 'xliff' ? segment.origin.state : undefined;
+  if (version === '2.0') {
+    switch (segment.status) {
+      case SegmentStatus.Approved: return { state: 'final' };
+      case SegmentStatus.Reviewed: return { state: 'reviewed' };
+      case SegmentStatus.NeedsWork: return { state: 'translated', subState: NEEDS_WORK_SUBSTATE };
+      default:
+        if (original && xliffStateToStatus(original, version) === SegmentStatus.Pending) return { state: original };
+        return { state: segment.targetText ? 'translated' : 'initial' };
+    }
+  }
+  switch (segment.status) {
+    case SegmentStatus.Approved: return { state: 'final' };
+    case SegmentStatus.Reviewed: return { state: REVIEWED_STATE_12 };
+    case SegmentStatus.NeedsWork: return { state: 'needs-review-translation' };
+    default:
+      if (original && xliffStateToStatus(original, version) === SegmentStatus.Pending) return { state: original };
+      return { state: segment.targetText ? 'translated' : 'new' };
+  }
+};
+
+const detectVersion = (root: Element): XliffVersion => {
+  const version = root.getAttribute('version') || '';
+  if (version.startsWith('2')) return '2.0';
+  if (root.namespaceURI && root.namespaceURI.includes(':2.')) return '2.0';
+  return '1.2';
+};
+
+const fileKeyOf = (file: Element, index: number) =>
+  file.getAttribute('id') || file.getAttribute('original') || `file${index + 1}`;
+
+const noteIdPrefix = (segmentIndex: number) => `${NOTE_AUTHOR}-${segmentIndex + 1}-`;
+
+const CATEGORY_NOTE = /^Category: (.+)$/;
+const REVISION_NOTE = 'Target revised from an AI suggestion';
+const BACK_TRANSLATION_NOTE = /^Back-translation \(([^)]+)\): ([\s\S]*)$/;
+
+/** Reads back the category, feedback, revision and back-translation notes written by a previous export. */
+const readReviewNotes = (notes: Element[], targetText: string): Pick<Segment, 'category' | 'aiFeedback' | 'aiRevised' | 'backTranslation'> => {
+  let category = SegmentCategory.None;
+  let aiFeedback: string | null = null;
+  let aiRevised = false;
+  let backTranslation: BackTranslation | null = null;
+  notes.forEach(note => {
+    const text = note.textContent || '';
+    const match = text.match(CATEGORY_NOTE);
+    const value = match && Object.values(SegmentCategory).find(c => c === match[1]);
+    const backTranslated = text.match(BACK_TRANSLATION_NOTE);
+    if (value) {
+      category = value;
+    } else if (backTranslated) {
+      // Only the text travels in the note; the sentence comparison is rebuilt by back-translating again.
+      backTranslation = { language: backTranslated[1], text: backTranslated[2], sentences: [], targetText, createdAt: Date.now() };
+    } else if (text === REVISION_NOTE) {
+      aiRevised = true;
+    } else if (text.trim()) {
+      aiFeedback = text;
+    }
+  });
+  return { category, aiFeedback, ...(aiRevised ? { aiRevised } : {}), ...(backTranslation ? { backTranslation } : {}) };
+};
+
+const hasMarkup = (...elements: Array<Element | null>) =>
+  elements.some(el => !!el && el.children.length > 0);
+
+export const parseXliff = (content: string, fileName: string): XliffImportResult => {
+  const doc = parseXmlDocument(content, 'xliff');
+  const root = doc.documentElement;
+  const version = detectVersion(root);
+  const files = byLocalName(doc, 'file');
+  const segments: Segment[] = [];
+  const skipped: SkippedItem[] = [];
+  const usedIds = new Set<string>();
+  let markupCount = 0;
+
+  let sourceLanguage: string | null = root.getAttribute('srcLang');
+  let targetLanguage: string | null = root.getAttribute('trgLang');
+
+  // Ids only need to be unique per <file>; collisions across files are prefixed with the file key.
+  const claimId = (id: string, fileKey: string) => {
+    const scoped = `${fileKey}\u0000${id}`;
+    if (usedIds.has(scoped)) return null;
+    usedIds.add(scoped);
+    const candidate = usedIds.has(id) ? `${fileKey}:${id}` : id;
+    usedIds.add(candidate);
+    return candidate;
+  };
+
+  const pushSegment = (
+    id: string,
+    source: Element | null,
+    target: Element | null,
+    state: string | null,
+    origin: XliffOrigin,
+    subState?: string | null,
+    notes: Element[] = []
+  ) => {
+    const sourceText = source?.textContent || '';
+    if (!sourceText.trim()) {
+      skipped.push({ id, reason: 'Empty source' });
+      return;
+    }
+    const inline = hasMarkup(source, target);
+    if (inline) markupCount++;
+    const targetText = target?.textContent || '';
+    segments.push({
+      id,
+      sourceText,
+      targetText,
+      status: xliffStateToStatus(state, version, subState),
+      ...readReviewNotes(notes, targetText),
+      wordBreakdown: [],
+      isAnalyzing: false,
+      origin: { ...origin, state: state || undefined, hasInlineMarkup: inline || undefined },
+    });
+  };
+
+  files.forEach((file, fileIndex) => {
+    const fileKey = fileKeyOf(file, fileIndex);
+
+    if (version === '1.2') {
+      sourceLanguage = sourceLanguage || file.getAttribute('source-language');
+      targetLanguage = targetLanguage || file.getAttribute('target-language');
+
+      byLocalName(file, 'trans-unit').forEach((unit, unitIndex) => {
+        const unitId = unit.getAttribute('id');
+        if (!unitId) {
+          skipped.push({ id: `${fileKey}#${unitIndex + 1}`, reason: 'Missing id attribute' });
+          return;
+        }
+        if (unit.getAttribute('translate') === 'no') {
+          skipped.push({ id: unitId, reason: 'Marked translate="no"' });
+          return;
+        }
+        const id = claimId(unitId, fileKey);
+        if (!id) {
+          skipped.push({ id: unitId, reason: 'Duplicate id' });
+          return;
+        }
+        const target = firstChild(unit, 'target');
+        const state = unit.getAttribute('approved') === 'yes' ? 'final' : target?.getAttribute('state') || null;
+        const notes = Array.from(unit.children).filter(
+          child => child.localName === 'note' && child.getAttribute('from') === NOTE_AUTHOR
+        );
+        pushSegment(id, firstChild(unit, 'source'), target, state, {
+          format: 'xliff',
+          fileId: fileKey,
+          unitId,
+        }, null, notes);
+      });
+      return;
+    }
+
+    byLocalName(file, 'unit').forEach((unit, unitIndex) => {
+      const unitId = unit.getAttribute('id');
+      if (!unitId) {
+        skipped.push({ id: `${fileKey}#${unitIndex + 1}`, reason: 'Missing id attribute' });
+        return;
+      }
+      if (unit.getAttribute('translate') === 'no') {
+        skipped.push({ id: unitId, reason: 'Marked translate="no"' });
+        return;
+      }
+      const unitSegments = byLocalName(unit, 'segment');
+      if (unitSegments.length === 0) {
+        skipped.push({ id: unitId, reason: 'Unit has no <segment>' });
+        return;
+      }
+      unitSegments.forEach((segment, segmentIndex) => {
+        const segmentId = segment.getAttribute('id') || undefined;
+        // Units holding a single segment keep the unit id as-is; otherwise each segment gets its own suffix.
+        const baseId = unitSegments.length === 1 ? unitId : `${unitId}_${segmentId || segmentIndex + 1}`;
+        const id = claimId(baseId, fileKey);
+        if (!id) {
+          skipped.push({ id: baseId, reason: 'Duplicate id' });
+          return;
+        }
+        const notesEl = firstChild(unit, 'notes');
+        const notes = notesEl
+          ? Array.from(notesEl.children).filter(note =>
+              (note.getAttribute('id') || '').startsWith(noteIdPrefix(segmentIndex)))
+          : [];
+        pushSegment(id, firstChild(segment, 'source'), firstChild(segment, 'target'), segment.getAttribute('state'), {
+          format: 'xliff',
+          fileId: fileKey,
+          unitId,
+          segmentId,
+          segmentIndex,
+        }, segment.getAttribute('subState'), notes);
+      });
+    });
+  });
+
+  const details: string[] = [`XLIFF ${version}, ${files.length} file${files.length === 1 ? '' : 's'}`];
+  if (sourceLanguage || targetLanguage) {
+    details.push(`Language pair: ${sourceLanguage || '?'} → ${targetLanguage || '?'}`);
+  }
+  const statusCounts = Object.values(SegmentStatus)
+    .map(status => [status, segments.filter(s => s.status === status).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${count} ${status}`);
+  if (statusCounts.length > 0) details.push(`Statuses: ${statusCounts.join(', ')}`);
+  if (markupCount > 0) {
+    details.push(`${markupCount} segment${markupCount === 1 ? ' contains' : 's contain'} inline tags, shown as plain text`);
+  }
+
+  return {
+    version,
+    sourceLanguage,
+    targetLanguage,
+    segments,
+    summary: {
+      format: `XLIFF ${version}`,
+      fileName,
+      imported: segments.length,
+      skipped,
+      details,
+    },
+  };
+};
+
+export interface XliffExportOptions {
+  sourceLanguage: string;
+  targetLanguage: string;
+  document?: XliffDocument | null;
+}
+
+const XLIFF_12_NS = 'urn:oasis:names:tc:xliff:document:1.2';
+
+const originKey = (fileId: string | undefined, unitId: string, segmentIndex = 0) =>
+  [fileId || '', unitId, segmentIndex].join('\u0000');
+
+const reviewNotes = (segment: Segment): Array<{ kind: string; text: string }> => {
+  const notes: Array<{ kind: string; text: string }> = [];
+  if (segment.category !== SegmentCategory.None) {
+    notes.push({ kind: 'category', text: `Category: ${segment.category}` });
+  }
+  if (segment.aiFeedback) {
+    notes.push({ kind: 'feedback', text: segment.aiFeedback });
+  }
+  if (segment.aiRevised) {
+    notes.push({ kind: 'revision', text: REVISION_NOTE });
+  }
+  if (segment.backTranslation) {
+    notes.push({ kind: 'back-translation', text: `Back-translation (${segment.backTranslation.language}): ${segment.backTranslation.text}` });
+  }
+  return notes;
+};
+
+const textNodes = (node: Node): CharacterData[] =>
+  Array.from(node.childNodes).flatMap(child =>
+    child.nodeType === Node.TEXT_NODE || child.nodeType === Node.CDATA_SECTION_NODE
+      ? [child as CharacterData]
+      : textNodes(child));
+
+/** Replaces characters [start, end) of the concatenated text nodes; the new text goes into the first node touched. */
+const spliceText = (nodes: CharacterData[], start: number, end: number, text: string) => {
+  let offset = 0;
+  let placed = false;
+  nodes.forEach(node => {
+    const nodeStart = offset;
+    offset += node.data.length;
+    if (offset < start || nodeStart > end) return;
+    node.data = node.data.slice(0, Math.max(start - nodeStart, 0)) + (placed ? '' : text) + node.data.slice(Math.min(end - nodeStart, node.data.length));
+    placed = true;
+  });
+};
+
+/**
+ * Puts edited text into a target without dropping its inline elements (<g>, <x/>, <ph>…).
+ * Each changed stretch of a word diff is rewritten on its own, so elements next to unchanged
+ * words stay where they were.
+ */
+const replaceTargetText = (target: Element, text: string) => {
+  const nodes = textNodes(target);
+  if (nodes.length === 0) {
+    target.appendChild(target.ownerDocument.createTextNode(text));
+    return;
+  }
+  let offset = 0;
+  const hunks: Array<{ start: number; end: number; added: string }> = [];
+  revisionParts(target.textContent || '', text).forEach(part => {
+    if (part.type === 'equal') {
+      offset += part.text.length;
+    } else {
+      hunks.push({ start: offset, end: offset + part.removed.length, added: part.added });
+      offset += part.removed.length;
+    }
+  });
+  // Last hunk first, so the offsets of the earlier ones still hold.
+  hunks.reverse().forEach(({ start, end, added }) => spliceText(nodes, start, end, added));
+};
+
+const writeTarget = (container: Element, segment: Segment) => {
+  const doc = container.ownerDocument;
+  let target = firstChild(container, 'target');
+  if (!target) {
+    target = doc.createElementNS(container.namespaceURI, 'target');
+    const source = firstChild(container, 'source');
+    container.insertBefore(target, source ? source.nextSibling : null);
+  }
+  if (target.textContent !== segment.targetText) {
+    replaceTargetText(target, segment.targetText);
+  }
+  return target;
+};
+
+const writeUnit12 = (unit: Element, segment: Segment) => {
+  const doc = unit.ownerDocument;
+  const target = writeTarget(unit, segment);
+  target.setAttribute('state', statusToXliffState(segment, '1.2').state);
+  // Import reads approved="yes" before the state, so it has to follow the status both ways.
+  if (segment.status === SegmentStatus.Approved) {
+    unit.setAttribute('approved', 'yes');
+  } else {
+    unit.removeAttribute('approved');
+  }
+
+  Array.from(unit.children)
+    .filter(child => child.localName === 'note' && child.getAttribute('from') === NOTE_AUTHOR)
+    .forEach(note => note.remove());
+
+  let anchor: Node = target;
+  reviewNotes(segment).forEach(({ kind, text }) => {
+    const note = doc.createElementNS(unit.namespaceURI, 'note');
+    note.setAttribute('from', NOTE_AUTHOR);
+    note.setAttribute('annotates', kind === 'feedback' ? 'target' : 'general');
+    note.textContent = text;
+    unit.insertBefore(note, anchor.nextSibling);
+    anchor = note;
+  });
+};
+
+const writeSegment20 = (unit: Element, segmentEl: Element, segment: Segment, segmentIndex: number) => {
+  const doc = unit.ownerDocument;
+  writeTarget(segmentEl, segment);
+  const { state, subState } = statusToXliffState(segment, '2.0');
+  segmentEl.setAttribute('state', state);
+  if (subState) {
+    segmentEl.setAttribute('subState', subState);
+  } else if (segmentEl.getAttribute('subState') === NEEDS_WORK_SUBSTATE) {
+    segmentEl.removeAttribute('subState');
+  }
+
+  const idPrefix = noteIdPrefix(segmentIndex);
+  let notes = firstChild(unit, 'notes');
+  if (notes) {
+    Array.from(notes.children)
+      .filter(note => (note.getAttribute('id') || '').startsWith(idPrefix))
+      .forEach(note => note.remove());
+  }
+
+  const entries = reviewNotes(segment);
+  if (entries.length > 0 && !notes) {
+    notes = doc.createElementNS(unit.namespaceURI, 'notes');
+    const before = Array.from(unit.children).find(child =>
+      ['originalData', 'segment', 'ignorable'].includes(child.localName)
+    );
+    unit.insertBefore(notes, before || null);
+  }
+  entries.forEach(({ kind, text }) => {
+    const note = doc.createElementNS(unit.namespaceURI, 'note');
+    note.setAttribute('id', `${idPrefix}${kind}`);
+    note.setAttribute('category', NOTE_AUTHOR);
+    if (kind === 'feedback') note.setAttribute('appliesTo', 'target');
+    note.textContent = text;
+    notes!.appendChild(note);
+  });
+  if (notes && notes.children.length === 0) notes.remove();
+};
+
+const appendNewUnit = (container: Element, segment: Segment, version: XliffVersion) => {
+  const doc = container.ownerDocument;
+  const ns = container.namespaceURI;
+  const source = doc.createElementNS(ns, 'source');
+  source.textContent = segment.sourceText;
+
+  if (version === '1.2') {
+    const unit = doc.createElementNS(ns, 'trans-unit');
+    unit.setAttribute('id', segment.id);
+    unit.appendChild(source);
+    container.appendChild(unit);
+    writeUnit12(unit, segment);
+    return;
+  }
+
+  const unit = doc.createElementNS(ns, 'unit');
+  unit.setAttribute('id', segment.id);
+  const segmentEl = doc.createElementNS(ns, 'segment');
+  segmentEl.appendChild(source);
+  unit.appendChild(segmentEl);
+  container.appendChild(unit);
+  writeSegment20(unit, segmentEl, segment, 0);
+};
+
+const emptyDocument = (sourceLanguage: string, targetLanguage: string) =>
+  parseXmlDocument(
+    `<xliff version="1.2" xmlns="${XLIFF_12_NS}">` +
+      `<file original="bilingual-proofreader" datatype="plaintext" ` +
+      `source-language="${codeForLanguage(sourceLanguage)}" target-language="${codeForLanguage(targetLanguage)}">` +
+      `<body/></file></xliff>`,
+    'xliff'
+  );
+
+/**
+ * Serialises the working set as XLIFF. When the segments came from an imported file, that file is
+ * patched in place so ids, groups, skeletons and untouched units survive the round trip; segments
+ * added afterwards are appended to the last <file>, and units whose segments were all deleted are dropped.
+ * Units the import skipped, such as translate="no" ones, are kept as they were.
+ */
+export const exportXliff = (segments: Segment[], options: XliffExportOptions): string => {
+  const source = options.document;
+  const doc = source
+    ? parseXmlDocument(source.content, 'xliff')
+    : emptyDocument(options.sourceLanguage, options.targetLanguage);
+  const version: XliffVersion = source ? source.version : '1.2';
+  const root = doc.documentElement;
+
+  const byOrigin = new Map<string, Segment>();
+  const added: Segment[] = [];
+  segments.forEach(segment => {
+    if (source && segment.origin?.format === 'xliff') {
+      byOrigin.set(originKey(segment.origin.fileId, segment.origin.unitId, segment.origin.segmentIndex), segment);
+    } else {
+      added.push(segment);
+    }
+  });
+
+  const imported = new Set(source
+    ? parseXliff(source.content, source.fileName).segments.flatMap(({ origin }) =>
+        origin?.format === 'xliff' ? [originKey(origin.fileId, origin.unitId, origin.segmentIndex)] : [])
+    : []);
+
+  const files = byLocalName(doc, 'file');
+  files.forEach((file, fileIndex) => {
+    const fileKey = fileKeyOf(file, fileIndex);
+    if (version === '1.2') {
+      if (!file.getAttribute('target-language')) {
+        file.setAttribute('target-language', codeForLanguage(options.targetLanguage));
+      }
+      byLocalName(file, 'trans-unit').forEach(unit => {
+        const key = originKey(fileKey, unit.getAttribute('id') || '');
+        const segment = byOrigin.get(key);
+        if (segment) writeUnit12(unit, segment);
+        else if (imported.has(key)) unit.remove();
+      });
+      return;
+    }
+    byLocalName(file, 'unit').forEach(unit => {
+      let kept = false;
+      let deleted = false;
+      byLocalName(unit, 'segment').forEach((segmentEl, segmentIndex) => {
+        const key = originKey(fileKey, unit.getAttribute('id') || '', segmentIndex);
+        const segment = byOrigin.get(key);
+        if (segment) writeSegment20(unit, segmentEl, segment, segmentIndex);
+        kept = kept || !!segment;
+        deleted = deleted || (!segment && imported.has(key));
+      });
+      // Segments of a unit are one piece of text, so a unit goes only once none of them is left.
+      if (deleted && !kept) unit.remove();
+    });
+  });
+
+  if (version === '2.0' && !root.getAttribute('trgLang')) {
+    root.setAttribute('trgLang', codeForLanguage(options.targetLanguage));
+  }
+
+  const lastFile = files[files.length - 1];
+  if (lastFile && added.length > 0) {
+    const container = version === '1.2' ? firstChild(lastFile, 'body') || lastFile : lastFile;
+    added.forEach(segment => appendNewUnit(container, segment, version));
+  }
+
+  return serializeXml(doc);
+};
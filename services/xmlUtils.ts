@@ -0,0 +1,35 @@
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const byLocalName = (root: Element | Document, name: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', name));
+
+export const firstChild = (parent: Element, name: string): Element | null =>
+  Array.from(parent.children).find(child => child.localName === name) || null;
+
+/**
+ * Parses an XML interchange file and checks its root element.
+ * Throws an Error with a user-facing message when the file is not what we expect.
+ */
+export const parseXmlDocument = (content: string, rootName: string): XMLDocument => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    throw new Error(`Not a well-formed XML document: ${(parserError.textContent || '').trim().substring(0, 150)}`);
+  }
+  const root = doc.documentElement;
+  if (root.localName !== rootName) {
+    throw new Error(`Expected a <${rootName}> root element but found <${root.localName}>.`);
+  }
+  return doc;
+};
+
+export const serializeXml = (doc: XMLDocument): string => {
+  const body = new XMLSerializer().serializeToString(doc);
+  return body.startsWith('<?xml') ? body : `<?xml version="1.0" encoding="UTF-8"?>\n${body}`;
+};
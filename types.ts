@@ -14,12 +14,130 @@ export enum SegmentCategory {
   None = 'None'
 }
 
+export enum IssueSeverity {
+  Minor = 'minor',
+  Major = 'major',
+  Critical = 'critical'
+}
+
+export interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface AnalysisIssue {
+  category: SegmentCategory;
+  severity: IssueSeverity;
+  description: string;
+  sourceSpan: TextSpan | null;
+  targetSpan: TextSpan | null;
+  suggestion: string;
+  resolved?: boolean;
+}
+
 export interface WordBreakdown {
   targetWord: string;
   sourceEquivalent: string;
   context: string;
 }
 
+export type XliffVersion = '1.2' | '2.0';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface XliffOrigin {
+  format: 'xliff';
+  fileId?: string;
+  unitId: string;
+  segmentId?: string;
+  segmentIndex?: number;
+  state?: string;
+  hasInlineMarkup?: boolean;
+}
+
+/** A subtitle cue; times are in milliseconds from the start of the video. */
+export interface SubtitleOrigin {
+  format: SubtitleFormat;
+  /** SRT cue number or WebVTT cue identifier, when the cue had one. */
+  cueId?: string;
+  start: number;
+  end: number;
+  /** WebVTT cue settings such as "align:start line:0". */
+  settings?: string;
+}
+
+export type SegmentOrigin = XliffOrigin | SubtitleOrigin;
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+export interface Locale {
+  /** Display name; also the key languages are stored under throughout the app. */
+  name: string;
+  /** BCP-47 tag written to and matched against interchange files. */
+  code: string;
+  /** ISO 15924 script code, e.g. "Latn", "Mtei". */
+  script: string;
+  direction: 'ltr' | 'rtl';
+  /** Recommended font family for the script. */
+  font?: string;
+  /** Plural categories and separators, for languages Intl does not know. */
+  pluralCategories?: PluralCategory[];
+  decimalSeparator?: string;
+  groupSeparator?: string;
+  /** Few reviewers read it directly, so back-translation is offered first. */
+  lowResource?: boolean;
+  custom?: boolean;
+}
+
+export type AnalysisErrorCode =
+  | 'missing_key'
+  | 'invalid_key'
+  | 'quota'
+  | 'network'
+  | 'blocked'
+  | 'bad_response'
+  | 'cancelled'
+  | 'unknown';
+
+export interface AnalysisError {
+  code: AnalysisErrorCode;
+  message: string;
+  status?: number;
+  retryAfterMs?: number;
+  timestamp: number;
+}
+
+export type RevisionOrigin = 'initial' | 'edit' | 'analysis' | 'suggestion' | 'restore';
+
+export interface SegmentRevision {
+  timestamp: number;
+  origin: RevisionOrigin;
+  targetText: string;
+  status: SegmentStatus;
+  category: SegmentCategory;
+}
+
+export type DriftLevel = 'none' | 'minor' | 'major';
+
+export interface BackTranslatedSentence {
+  source: string;
+  backTranslation: string;
+  drift: DriftLevel;
+  note: string;
+}
+
+export interface BackTranslation {
+  /** Language the target was translated back into. */
+  language: string;
+  text: string;
+  /** Source sentences paired with the back-translation of their rendering; empty when read back from an export. */
+  sentences: BackTranslatedSentence[];
+  /** Target the back-translation was made from, so later edits can mark it stale. */
+  targetText: string;
+  createdAt: number;
+}
+
 export interface Segment {
   id: string;
   sourceText: string;
@@ -28,7 +146,272 @@ export interface Segment {
   category: SegmentCategory;
   aiFeedback: string | null;
   wordBreakdown?: WordBreakdown[];
+  issues?: AnalysisIssue[];
+  /** Corrected target proposed by the last audit; null once accepted or dismissed. */
+  suggestedTarget?: string | null;
+  /** Set when the reviewer accepted (part of) an AI suggestion into the target. */
+  aiRevised?: boolean;
+  /** Versions of target, status and category, oldest first. */
+  history?: SegmentRevision[];
+  /** When the shown audit was served from the analysis cache, the time it was originally produced. */
+  cachedAt?: number | null;
+  /** Version of the audit prompt template that produced `aiFeedback`. */
+  promptVersion?: number | null;
+  backTranslation?: BackTranslation | null;
   isAnalyzing: boolean;
+  isBackTranslating?: boolean;
+  analysisError?: AnalysisError | null;
+  origin?: SegmentOrigin;
+}
+
+export interface XliffDocument {
+  format: 'xliff';
+  version: XliffVersion;
+  fileName: string;
+  content: string;
+}
+
+export interface SubtitleDocument {
+  format: SubtitleFormat;
+  fileName: string;
+  content: string;
+}
+
+export type ImportedDocument = XliffDocument | SubtitleDocument;
+
+export type ExportFormat = 'xliff' | 'tmx' | SubtitleFormat;
+
+export interface SkippedItem {
+  id: string;
+  reason: string;
+}
+
+export interface SegmentConflict {
+  id: string;
+  /** Segment fields whose stored and imported values differ. */
+  fields: string[];
+  kept: 'current' | 'imported';
+}
+
+export interface ImportSummary {
+  format: string;
+  fileName: string;
+  imported: number;
+  skipped: SkippedItem[];
+  details: string[];
+  conflicts?: SegmentConflict[];
+  error?: string;
+}
+
+export type TargetLanguage = string;
+
+export interface GlossaryEntry {
+  id: string;
+  source: string;
+  approved: string[];
+  forbidden: string[];
+  note?: string;
+}
+
+/** Glossary entries keyed by language pair, e.g. "English|Spanish". */
+export type Glossary = Record<string, GlossaryEntry[]>;
+
+export interface TermViolation {
+  entry: GlossaryEntry;
+  kind: 'missing' | 'forbidden';
+  sourceSpan: TextSpan;
+  targetSpan: TextSpan | null;
+}
+
+export interface DiffToken {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/** A word diff grouped into unchanged text and individually acceptable changes. */
+export type RevisionPart =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; removed: string; added: string };
+
+export interface MemoryEntry {
+  id: string;
+  /** `${sourceLanguage}|${targetLanguage}`, indexed for per-pair lookups. */
+  pair: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  sourceText: string;
+  targetText: string;
+  origin: 'approved' | 'tmx';
+  updatedAt: number;
+}
+
+export interface MemoryMatch {
+  entry: MemoryEntry;
+  score: number;
+  /** Diff from the memory's source to the segment's current source. */
+  sourceDiff: DiffToken[];
+}
+
+export interface SegmentFilter {
+  query: string;
+  status: SegmentStatus | 'all';
+  category: SegmentCategory | 'all';
+  hasFeedback: boolean;
+  failed: boolean;
+}
+
+export type SegmentSort = 'original' | 'status' | 'sourceLength' | 'targetLength';
+
+export interface ReplaceOptions {
+  find: string;
+  replace: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export interface ReplacementPreview {
+  segment: Segment;
+  after: string;
+  count: number;
+}
+
+export interface AnalysisCacheSettings {
+  enabled: boolean;
+  maxEntries: number;
+  /** Entries unused for longer than this are evicted; 0 keeps them indefinitely. */
+  maxAgeDays: number;
+}
+
+export type Register = 'unspecified' | 'formal' | 'neutral' | 'informal';
+
+export interface PromptTemplate {
+  version: number;
+  text: string;
+  createdAt: number;
+}
+
+export interface ProjectSettings {
+  styleGuide: string;
+  register: Register;
+  domain: string;
+  audience: string;
+  /** Every saved audit template, oldest first; version 1 is the built-in default. */
+  promptTemplates: PromptTemplate[];
+  activePromptVersion: number;
 }
 
-export type TargetLanguage = string;
\ No newline at end of file
+export interface Project {
+  id: string;
+  /** Layout version of this record; older records are migrated when read. */
+  schemaVersion: number;
+  name: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  segments: Segment[];
+  /** The original XLIFF, kept so exports can round-trip its ids and structure. */
+  document: ImportedDocument | null;
+  settings: ProjectSettings;
+  qaSettings: QaSettings;
+  archived: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ProjectSummary = Omit<Project, 'segments' | 'document'> & { segmentCount: number };
+
+export interface ProjectPackage {
+  format: 'bilingual-proofreader-project';
+  formatVersion: number;
+  exportedAt: number;
+  project: Project;
+  /** Definitions of the custom languages the project uses, so it opens the same elsewhere. */
+  locales: Locale[];
+}
+
+/** How a package is imported over a project with the same id: merged or replaced by segment id, or restored alongside it. */
+export type PackageImportMode = 'merge' | 'replace' | 'copy';
+
+export type SegmentLayout = 'cards' | 'compact';
+
+export type AppView = 'segments' | 'dashboard';
+
+export interface SegmentScore {
+  segment: Segment;
+  penalty: number;
+  openIssues: number;
+}
+
+export interface QualityReport {
+  generatedAt: number;
+  sourceLanguage: string;
+  targetLanguage: string;
+  totalSegments: number;
+  sourceWords: number;
+  statusCounts: Record<SegmentStatus, number>;
+  categoryCounts: Record<SegmentCategory, number>;
+  severityCounts: Record<IssueSeverity, number>;
+  penaltyPoints: number;
+  /** Weighted penalty points per 1,000 source words. */
+  errorDensity: number;
+  /** MQM-style quality score: 100 minus penalty points per 100 source words, floored at 0. */
+  qualityScore: number;
+  worstSegments: SegmentScore[];
+}
+
+export type QaCheckId =
+  | 'numbers'
+  | 'placeholders'
+  | 'tags'
+  | 'tagBalance'
+  | 'plurals'
+  | 'endPunctuation'
+  | 'doubleSpaces'
+  | 'whitespace'
+  | 'untranslated'
+  | 'consistency'
+  | 'terminology'
+  | 'readingSpeed'
+  | 'lineLength'
+  | 'lineCount';
+
+export type QaSettings = Record<QaCheckId, boolean>;
+
+export interface QaFinding {
+  checkId: QaCheckId;
+  severity: 'warning' | 'error';
+  message: string;
+  targetSpan?: TextSpan | null;
+}
+
+export interface BatchSettings {
+  concurrency: number;
+  requestsPerMinute: number;
+}
+
+export interface BatchProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  requeued: number;
+  queuedIds: string[];
+  inFlightIds: string[];
+  isPaused: boolean;
+  isFinished: boolean;
+  isCancelled: boolean;
+  etaMs: number | null;
+  cooldownUntil: number | null;
+}
+
+export type ProviderId = 'gemini' | 'openai';
+
+export interface ProviderConfig {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+}
+
+export interface AISettings {
+  provider: ProviderId;
+  providers: Record<ProviderId, ProviderConfig>;
+}